@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { extractSeries, processTrendData } from './analysis.js';
+
+/**
+ * Monthly series from `from` (YYYY-MM) with one value per month.
+ */
+function monthly(from: string, values: number[]): Record<string, number> {
+  const [year, month] = from.split('-').map(Number) as [number, number];
+  return Object.fromEntries(values.map((value, i) => {
+    const index = year * 12 + month - 1 + i;
+    return [`${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`, value];
+  }));
+}
+
+describe('processTrendData windows', () => {
+  const data = monthly('2020-01', Array.from({ length: 60 }, (_, i) => 10 + i));
+
+  it('anchors relative ranges at the latest data point', () => {
+    const trend = processTrendData(data, '1y');
+    expect(trend.window).toMatchObject({ requested: '1y', anchor: 'latest_data_point', start: '2024-01', end: '2024-12' });
+    expect(trend.dataPoints).toBe(12);
+  });
+
+  it('starts at the first data point when only endDate is given', () => {
+    const trend = processTrendData(data, '1y', { endDate: '2022-06' });
+    expect(trend.window).toMatchObject({ requested: 'beginning..2022-06', anchor: 'explicit', start: '2020-01', end: '2022-06' });
+    expect(trend.dataPoints).toBe(30);
+    expect(trend.values.first).toBe(10);
+  });
+
+  it('ends at the latest data point when only startDate is given', () => {
+    const trend = processTrendData(data, '6m', { startDate: '2024-03' });
+    expect(trend.window).toMatchObject({ requested: '2024-03..latest', start: '2024-03', end: '2024-12' });
+    expect(trend.dataPoints).toBe(10);
+  });
+
+  it('keeps only quarters that lie entirely inside the window', () => {
+    const quarterly = { '2023Q4': 1, '2024Q1': 2, '2024Q2': 3, '2024Q3': 4, '2024Q4': 5 };
+    const trend = processTrendData(quarterly, '1y', { granularity: 'quarterly', startDate: '2024-02' });
+    expect(trend.dataPoints).toBe(3);
+    expect(trend.values.first).toBe(3);
+  });
+});
+
+describe('re-aggregating monthly series', () => {
+  const twelveMonths = (value: number) => monthly('2023-01', Array.from({ length: 12 }, () => value));
+
+  it('sums counts into years and quarters', () => {
+    const { points, info } = extractSeries(twelveMonths(5), { metric: 'stars', granularity: 'yearly' });
+    expect(points).toEqual([{ date: '2023', value: 60 }]);
+    expect(info.source).toBe('summed_from_monthly');
+    expect(extractSeries(twelveMonths(5), { metric: 'stars', granularity: 'quarterly' }).points[0]).toEqual({ date: '2023Q1', value: 15 });
+  });
+
+  it.each(['bus_factor', 'contributors', 'maintainer_count', 'openrank', 'activity'])('averages the gauge %s', metric => {
+    const { points, info } = extractSeries(twelveMonths(2), { metric, granularity: 'yearly' });
+    expect(points).toEqual([{ date: '2023', value: 2 }]);
+    expect(info.source).toBe('averaged_from_monthly');
+  });
+
+  it('averages quantile statistics over the months present', () => {
+    const responseTime = { avg: {}, quantile_2: { '2023-01': 2, '2023-02': 4, '2023-03': 6, '2023-04': 1 } };
+    const { points, info } = extractSeries(responseTime, { metric: 'issue_response_time', granularity: 'quarterly' });
+    expect(points).toEqual([{ date: '2023Q1', value: 4 }, { date: '2023Q2', value: 1 }]);
+    expect(info).toMatchObject({ source: 'averaged_from_monthly', statistic: 'median' });
+  });
+
+  it('prefers native quarterly and yearly keys', () => {
+    const { points, info } = extractSeries({ ...twelveMonths(2), '2023': 7 }, { metric: 'bus_factor', granularity: 'yearly' });
+    expect(points).toEqual([{ date: '2023', value: 7 }]);
+    expect(info.source).toBe('native');
+  });
+});
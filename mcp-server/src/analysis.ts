@@ -6,13 +6,18 @@
  * repository and user metrics, offering insights into performance, growth, and overall health.
  *
  * Key Features:
- * - Comparison analysis across multiple repositories and metrics
+ * - Comparison analysis across multiple repositories and metrics, by latest value, growth, age or per contributor
  * - Trend detection and statistical analysis of time-series data
  * - Health score calculation based on weighted metrics
  * - Error handling and suggestion generation
  */
 
 
+import type { UpstreamErrorDetails } from './resilience.js';
+import type { Provenance } from './utils.js';
+import { getMetricDescriptor, parseMetric, toScalarPeriods, type MetricShape, type SeriesStatistic } from './metrics.js';
+
+
 /**
  * Represents the result of a comparison between repositories for a set of metrics.
  */
@@ -22,6 +27,7 @@ export interface ComparisonResult {
   metrics: Array<{
     metric: string;
     data?: any;
+    provenance?: Provenance;
     success: boolean;
     error?: string;
   }>;
@@ -31,23 +37,106 @@ export interface ComparisonResult {
  * Represents the analysis result of comparing multiple repositories across various metrics.
  */
 export interface ComparisonAnalysis {
+  mode: ComparisonMode;
   summary: Record<string, {
     highest: number;
     average: number;
     range: [number, number];
     winner: string;
+    /** True for metrics such as response times, where the winner has the lowest value. */
+    lowerIsBetter: boolean;
+    statistic?: SeriesStatistic | undefined;
+    /** What the compared values are, e.g. the latest value or growth over a window. */
+    basis: string;
   }>;
   winners: Record<string, string>;
   insights: string[];
-  rankings: Record<string, Array<{repo: string; value: number; rank: number}>>;
+  /** `period` is the period (or window) each value was read from. */
+  rankings: Record<string, Array<{repo: string; value: number; rank: number; period: string}>>;
   healthScores: Record<string, number>;
 }
 
+/**
+ * How repositories are put on an equal footing before they are ranked:
+ * - `latest`: the latest value of each repository
+ * - `growth`: change between two consecutive windows covering the same calendar periods for all repositories
+ * - `age`: the value N periods after each repository's first data point
+ * - `per_contributor`: the latest value divided by the contributors of the same period
+ */
+export type ComparisonMode = 'latest' | 'growth' | 'age' | 'per_contributor';
+
+/**
+ * Series selection and comparison mode for `generateComparisonAnalysis`.
+ */
+export interface ComparisonOptions extends SeriesOptions {
+  mode?: ComparisonMode | undefined;
+  /** Periods per growth window (default: one year, shortened so the youngest repository covers both windows). */
+  window?: number | undefined;
+  /** Age in periods for `age` mode, 1 being the first period (default: the age of the youngest repository). */
+  age?: number | undefined;
+}
+
+/**
+ * Period granularity of an OpenDigger series. Metric files carry monthly (`2023-01`),
+ * quarterly (`2023Q1`) and yearly (`2023`) keys side by side.
+ */
+export type Granularity = 'monthly' | 'quarterly' | 'yearly';
+
+/**
+ * Selects which keys of a metric file form the series.
+ */
+export interface SeriesOptions {
+  granularity?: Granularity | undefined;
+  /** Use OpenDigger's unsmoothed `-raw` values instead of the default (smoothed) ones. */
+  raw?: boolean | undefined;
+  /** Metric name, used to look up its shape and default statistic in the metric registry. */
+  metric?: string | undefined;
+  /** Value to read from quantile series such as `issue_response_time` (default: median). */
+  statistic?: SeriesStatistic | undefined;
+}
+
+/**
+ * Describes the series that was actually used, which may differ from the request
+ * (e.g. quarters re-aggregated from months, or smoothed values when no raw ones exist).
+ */
+export interface SeriesInfo {
+  granularity: Granularity;
+  valueType: 'raw' | 'smoothed';
+  /** Native keys, or quarters/years built from months by summing (counts) or averaging (gauges, quantiles). */
+  source: 'native' | 'summed_from_monthly' | 'averaged_from_monthly';
+  shape: MetricShape;
+  /** Statistic read from a quantile series. */
+  statistic?: SeriesStatistic | undefined;
+  lowerIsBetter: boolean;
+}
+
+/**
+ * Explicit bounds (inclusive, `YYYY-MM`) for a trend analysis window.
+ */
+export interface TrendWindowOptions {
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+}
+
+/**
+ * Describes the slice of the series a trend analysis was computed over.
+ */
+export interface TrendWindow {
+  requested: string;
+  start?: string;
+  end?: string;
+  /** How the window was anchored: relative to the latest data point, or by explicit dates. */
+  anchor: 'latest_data_point' | 'explicit';
+  totalDataPoints: number;
+}
+
 /**
  * Represents the analysis of a time-series trend for a specific metric.
  */
 export interface TrendAnalysis {
   dataPoints: number;
+  series: SeriesInfo;
+  window: TrendWindow;
   timeRange: {
     start?: string;
     end?: string;
@@ -78,43 +167,258 @@ export interface TrendAnalysis {
   };
 }
 
+const PERIOD_PATTERNS: Record<Granularity, RegExp> = {
+  monthly: /^(\d{4}-\d{2}(?:-\d{2})?)(-raw)?$/, // YYYY-MM or YYYY-MM-DD
+  quarterly: /^(\d{4}Q[1-4])(-raw)?$/,
+  yearly: /^(\d{4})(-raw)?$/
+};
+
+/**
+ * Collects the periods of one granularity, keyed by period label without the `-raw` suffix.
+ */
+function collectPeriods(data: Record<string, unknown>, granularity: Granularity, raw: boolean): Map<string, number> {
+  const periods = new Map<string, number>();
+  Object.entries(data).forEach(([key, value]) => {
+    const match = key.match(PERIOD_PATTERNS[granularity]);
+    if (!match || Boolean(match[2]) !== raw) return;
+    periods.set(match[1]!, typeof value === 'number' ? value : 0);
+  });
+  return periods;
+}
+
+/**
+ * Combines monthly values into quarters or years, for metric files that only carry monthly keys.
+ * Counts are summed; gauges, scores and quantiles are averaged over the months present.
+ */
+function aggregateMonthly(monthly: Map<string, number>, granularity: Granularity, aggregation: 'sum' | 'mean'): Map<string, number> {
+  const totals = new Map<string, { sum: number; months: number }>();
+  monthly.forEach((value, month) => {
+    const year = month.substring(0, 4);
+    const key = granularity === 'yearly' ? year : `${year}Q${Math.ceil(Number(month.substring(5, 7)) / 3)}`;
+    const total = totals.get(key) ?? { sum: 0, months: 0 };
+    totals.set(key, { sum: total.sum + value, months: total.months + 1 });
+  });
+  return new Map(Array.from(totals, ([key, total]) => [key, aggregation === 'sum' ? total.sum : total.sum / total.months]));
+}
+
+/**
+ * Returns the first and last month (`YYYY-MM`) covered by a period label.
+ */
+export function periodBounds(period: string, granularity: Granularity): [string, string] {
+  const year = period.substring(0, 4);
+  if (granularity === 'yearly') return [`${year}-01`, `${year}-12`];
+  if (granularity === 'quarterly') {
+    const quarter = Number(period.substring(5, 6));
+    return [`${year}-${String(quarter * 3 - 2).padStart(2, '0')}`, `${year}-${String(quarter * 3).padStart(2, '0')}`];
+  }
+  return [period.substring(0, 7), period.substring(0, 7)];
+}
+
+/**
+ * Extracts a sorted time series of the requested granularity from a metric data object.
+ * Quarterly and yearly series are re-aggregated from monthly keys when the file has none (summed
+ * or averaged, as the metric registry prescribes), and smoothed values are used when raw ones
+ * were requested but are not available.
+ *
+ * @param data - The metric data object.
+ * @param options - Granularity and raw/smoothed selection (default: monthly, smoothed).
+ * @returns The series points and a description of the series used.
+ */
+export function extractSeries(data: any, options: SeriesOptions = {}): { points: Array<{date: string; value: number}>; info: SeriesInfo } {
+  const granularity = options.granularity ?? 'monthly';
+  const parsed = parseMetric(data, options.metric);
+  const descriptor = getMetricDescriptor(options.metric, parsed?.shape);
+  const info: SeriesInfo = {
+    granularity,
+    valueType: options.raw ? 'raw' : 'smoothed',
+    source: 'native',
+    shape: parsed?.shape ?? descriptor.shape,
+    lowerIsBetter: descriptor.lowerIsBetter
+  };
+
+  // Graphs have no time axis; quantile series and detail lists are reduced to one value per period
+  const scalar = parsed ? toScalarPeriods(parsed, descriptor, options.statistic) : undefined;
+  if (!scalar) return { points: [], info };
+  if (scalar.statistic) info.statistic = scalar.statistic;
+  const aggregation = descriptor.aggregation ?? (info.shape === 'scalar_series' ? 'sum' : 'mean');
+
+  const load = (raw: boolean) => {
+    const native = collectPeriods(scalar.periods, granularity, raw);
+    if (native.size > 0 || granularity === 'monthly') return { periods: native, aggregated: false };
+    return { periods: aggregateMonthly(collectPeriods(scalar.periods, 'monthly', raw), granularity, aggregation), aggregated: true };
+  };
+
+  let loaded = load(Boolean(options.raw));
+  if (options.raw && loaded.periods.size === 0) {
+    loaded = load(false);
+    info.valueType = 'smoothed';
+  }
+  if (loaded.aggregated) info.source = aggregation === 'sum' ? 'summed_from_monthly' : 'averaged_from_monthly';
+
+  const points = Array.from(loaded.periods.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, value]) => ({ date, value }));
+  return { points, info };
+}
+
 /**
  * Extracts the latest value from a metric data object.
- * Supports both flat and time-series data structures.
+ * Supports plain numbers and every series-like shape of the metric registry.
  *
- * @param data - The metric data object, which can be a number, a flat object, or a time-series object.
- * @returns The latest numeric value found, or 0 if none is found.
+ * @param data - The metric data object, which can be a number or any OpenDigger metric file.
+ * @param options - Granularity, raw/smoothed, metric name and statistic selection (default: monthly, smoothed).
+ * @returns The latest value, or null when the data has no time series (e.g. a network graph).
  */
-export function extractLatestValue(data: any): number {
+export function extractLatestValue(data: any, options: SeriesOptions = {}): number | null {
   if (typeof data === 'number') return data;
 
-  if (typeof data === 'object' && data !== null) {
-    const keys = Object.keys(data)
-      .filter(key => key.match(/^\d{4}-\d{2}(-\d{2})?$/)) // Match YYYY-MM or YYYY-MM-DD
-      .sort();
+  const { points } = extractSeries(data, options);
+  return points.length > 0 ? points[points.length - 1]!.value : null;
+}
+
+const PERIODS_PER_YEAR: Record<Granularity, number> = { monthly: 12, quarterly: 4, yearly: 1 };
+const PERIOD_UNITS: Record<Granularity, string> = { monthly: 'month', quarterly: 'quarter', yearly: 'year' };
 
-    if (keys.length === 0) {
-      const numericValues = Object.values(data).filter(val => typeof val === 'number');
-      return numericValues.length > 0 ? Math.max(...numericValues) : 0;
+/**
+ * Converts a period label to a running index, so that consecutive periods differ by one.
+ */
+function periodIndex(period: string, granularity: Granularity): number {
+  const year = Number(period.substring(0, 4));
+  if (granularity === 'yearly') return year;
+  if (granularity === 'quarterly') return year * 4 + Number(period.substring(5, 6)) - 1;
+  return year * 12 + Number(period.substring(5, 7)) - 1;
+}
+
+function periodLabel(index: number, granularity: Granularity): string {
+  if (granularity === 'yearly') return String(index);
+  if (granularity === 'quarterly') return `${Math.floor(index / 4)}Q${(index % 4) + 1}`;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * A repository's series for one metric, indexed by period.
+ */
+interface IndexedSeries {
+  repo: string;
+  first: number;
+  last: number;
+  values: Map<number, number>;
+}
+
+/**
+ * Values picked for one metric under a comparison mode, with what they represent and why
+ * repositories were left out.
+ */
+interface ModeSelection {
+  values: Array<{ repo: string; value: number; period: string }>;
+  basis: string;
+  notes: string[];
+}
+
+function selectLatest(series: IndexedSeries[], granularity: Granularity): ModeSelection {
+  return {
+    values: series.map(entry => ({ repo: entry.repo, value: entry.values.get(entry.last)!, period: periodLabel(entry.last, granularity) })),
+    basis: 'latest value',
+    notes: []
+  };
+}
+
+/**
+ * Growth in percent between two windows of `window` periods ending at the latest period any
+ * repository has, so that every repository is measured over the same calendar periods.
+ */
+function selectGrowth(series: IndexedSeries[], metric: string, granularity: Granularity, requested: number | undefined): ModeSelection {
+  const unit = PERIOD_UNITS[granularity];
+  const end = Math.max(...series.map(entry => entry.last));
+  const youngest = Math.min(...series.map(entry => end - entry.first + 1));
+  const window = requested ?? Math.max(1, Math.min(PERIODS_PER_YEAR[granularity], Math.floor(youngest / 2)));
+  const recentStart = end - window + 1;
+  const previousStart = recentStart - window;
+  const mean = (values: Map<number, number>, from: number) => {
+    let sum = 0;
+    for (let index = from; index < from + window; index++) sum += values.get(index) ?? 0;
+    return sum / window;
+  };
+
+  const notes: string[] = [];
+  const values = series.flatMap(entry => {
+    if (entry.first > previousStart) {
+      notes.push(`${entry.repo} has no ${metric} data before ${periodLabel(entry.first, granularity)}, too recent for two ${window}-${unit} windows`);
+      return [];
+    }
+    const recent = mean(entry.values, recentStart);
+    const previous = mean(entry.values, previousStart);
+    if (previous === 0) {
+      notes.push(`${entry.repo} had no ${metric} in ${periodLabel(previousStart, granularity)}..${periodLabel(recentStart - 1, granularity)}, so its growth is undefined`);
+      return [];
     }
+    return [{
+      repo: entry.repo,
+      value: Number((((recent - previous) / Math.abs(previous)) * 100).toFixed(2)),
+      period: `${periodLabel(recentStart, granularity)}..${periodLabel(end, granularity)}`
+    }];
+  });
 
-    const latestKey = keys[keys.length - 1] as string;
-    const value = (data as Record<string, unknown>)[latestKey];
-    return typeof value === 'number' ? value : 0;
-  }
+  return {
+    values,
+    basis: `growth % of the average over ${periodLabel(recentStart, granularity)}..${periodLabel(end, granularity)} against ${periodLabel(previousStart, granularity)}..${periodLabel(recentStart - 1, granularity)}`,
+    notes
+  };
+}
 
-  return 0;
+/**
+ * Value in the N-th period since each repository's first data point.
+ */
+function selectAtAge(series: IndexedSeries[], metric: string, granularity: Granularity, requested: number | undefined): ModeSelection {
+  const unit = PERIOD_UNITS[granularity];
+  const age = requested ?? Math.min(...series.map(entry => entry.last - entry.first + 1));
+  const notes: string[] = [];
+  const values = series.flatMap(entry => {
+    const available = entry.last - entry.first + 1;
+    if (age > available) {
+      notes.push(`${entry.repo} has only ${available} ${unit}s of ${metric} data, fewer than ${age}`);
+      return [];
+    }
+    const index = entry.first + age - 1;
+    return [{ repo: entry.repo, value: entry.values.get(index) ?? 0, period: periodLabel(index, granularity) }];
+  });
+  return { values, basis: `value in ${unit} ${age} since the first data point`, notes };
+}
+
+/**
+ * Latest value divided by the number of contributors in the same period.
+ */
+function selectPerContributor(series: IndexedSeries[], metric: string, granularity: Granularity, contributors: Map<string, Map<number, number>>, lowerIsBetter: boolean): ModeSelection {
+  const basis = 'latest value per contributor of the same period';
+  if (metric === 'contributors' || lowerIsBetter) {
+    return { values: [], basis, notes: [`${metric} is not meaningful per contributor and was not ranked`] };
+  }
+  const notes: string[] = [];
+  const values = series.flatMap(entry => {
+    const count = contributors.get(entry.repo)?.get(entry.last);
+    if (!count) {
+      notes.push(`${entry.repo} has no contributors count for ${periodLabel(entry.last, granularity)}`);
+      return [];
+    }
+    return [{ repo: entry.repo, value: Number((entry.values.get(entry.last)! / count).toFixed(4)), period: periodLabel(entry.last, granularity) }];
+  });
+  return { values, basis, notes };
 }
 
 /**
  * Generates a comparison analysis across multiple repositories and metrics.
  *
- * @param results - Array of comparison results for each repository.
+ * @param results - Array of comparison results for each repository; `per_contributor` mode also
+ *                  reads their `contributors` metric.
  * @param metrics - Array of metric names to analyze.
+ * @param options - Granularity and raw/smoothed selection, and the comparison mode (default: latest value).
  * @returns A comprehensive analysis object with summaries, rankings, and insights.
  */
-export function generateComparisonAnalysis(results: ComparisonResult[], metrics: string[]): ComparisonAnalysis {
+export function generateComparisonAnalysis(results: ComparisonResult[], metrics: string[], options: ComparisonOptions = {}): ComparisonAnalysis {
+  const mode = options.mode ?? 'latest';
+  const granularity = options.granularity ?? 'monthly';
   const analysis: ComparisonAnalysis = {
+    mode,
     summary: {},
     winners: {},
     insights: [],
@@ -122,21 +426,61 @@ export function generateComparisonAnalysis(results: ComparisonResult[], metrics:
     healthScores: {}
   };
 
+  const skipped: string[] = [];
+  const notes: string[] = [];
+  const selectedValues: Record<string, Map<string, number>> = {};
+
+  const indexSeries = (repo: ComparisonResult, metric: string) => {
+    const metricResult = repo.metrics.find(m => m.metric === metric && m.success);
+    if (!metricResult) return undefined;
+    const series = extractSeries(metricResult.data, { ...options, metric });
+    const indexed = series.points.length > 0 ? {
+      repo: repo.repository,
+      first: periodIndex(series.points[0]!.date, granularity),
+      last: periodIndex(series.points[series.points.length - 1]!.date, granularity),
+      values: new Map(series.points.map(point => [periodIndex(point.date, granularity), point.value]))
+    } : undefined;
+    return { indexed, info: series.info };
+  };
+
+  const contributors = new Map<string, Map<number, number>>();
+  if (mode === 'per_contributor') {
+    results.forEach(repo => {
+      const indexed = indexSeries(repo, 'contributors')?.indexed;
+      if (indexed) contributors.set(repo.repository, indexed.values);
+    });
+  }
+
   // Analyze each metric across repositories
   metrics.forEach(metric => {
-    const metricData = results.map(repo => {
-      const metricResult = repo.metrics.find(m => m.metric === metric && m.success);
-      const value = metricResult ? extractLatestValue(metricResult.data) : null;
-      return {
-        repo: repo.repository,
-        platform: repo.platform,
-        value: value
-      };
-    }).filter((item): item is { repo: string; platform: string; value: number } => item.value !== null && item.value > 0);
+    let info: SeriesInfo | undefined;
+    const series = results.flatMap(repo => {
+      const entry = indexSeries(repo, metric);
+      if (!entry) return [];
+      info ??= entry.info;
+      return entry.indexed ? [entry.indexed] : [];
+    });
 
-    if (metricData.length > 0) {
-      const values = metricData.map(item => item.value);
-      const sortedData = metricData.sort((a, b) => b.value - a.value);
+    if (info?.shape === 'graph') skipped.push(metric);
+    const lowerIsBetter = info?.lowerIsBetter ?? false;
+
+    let selection: ModeSelection = { values: [], basis: 'latest value', notes: [] };
+    if (series.length > 0) {
+      switch (mode) {
+        case 'growth': selection = selectGrowth(series, metric, granularity, options.window); break;
+        case 'age': selection = selectAtAge(series, metric, granularity, options.age); break;
+        case 'per_contributor': selection = selectPerContributor(series, metric, granularity, contributors, lowerIsBetter); break;
+        default: selection = selectLatest(series, granularity);
+      }
+    }
+    notes.push(...selection.notes);
+    selectedValues[metric] = new Map(selection.values.map(item => [item.repo, item.value]));
+
+    // Zero levels mean no activity and are not ranked; a zero (or negative) growth is a valid result
+    const ranked = selection.values.filter(item => item.value > 0 || lowerIsBetter || mode === 'growth');
+    if (ranked.length > 0) {
+      const values = ranked.map(item => item.value);
+      const sortedData = ranked.sort((a, b) => lowerIsBetter ? a.value - b.value : b.value - a.value);
 
       const winner = sortedData[0]!;
       const highest = Math.max(...values);
@@ -148,14 +492,18 @@ export function generateComparisonAnalysis(results: ComparisonResult[], metrics:
         highest,
         average,
         range: [lowest, highest],
-        winner: winner.repo
+        winner: winner.repo,
+        lowerIsBetter,
+        statistic: info?.statistic,
+        basis: selection.basis
       };
 
       // Create rankings for this metric
       analysis.rankings[metric] = sortedData.map((item, index) => ({
         repo: item.repo,
         value: item.value,
-        rank: index + 1
+        rank: index + 1,
+        period: item.period
       }));
     }
   });
@@ -164,11 +512,21 @@ export function generateComparisonAnalysis(results: ComparisonResult[], metrics:
   results.forEach(repo => {
     const scores: number[] = [];
     metrics.forEach(metric => {
-      const metricResult = repo.metrics.find(m => m.metric === metric && m.success);
-      if (metricResult && analysis.summary[metric]) {
-        const value = extractLatestValue(metricResult.data);
-        const maxValue = analysis.summary[metric].highest;
-        const normalizedScore = maxValue > 0 ? (value / maxValue) * 100 : 0;
+      const summary = analysis.summary[metric];
+      const value = selectedValues[metric]?.get(repo.repository);
+      if (summary && value !== undefined) {
+        const [lowest, highest] = summary.range;
+        let normalizedScore: number;
+        if (mode === 'growth') {
+          // Growth rates can be negative, so they are scaled between the worst and the best
+          const spread = highest - lowest;
+          normalizedScore = spread > 0 ? ((summary.lowerIsBetter ? highest - value : value - lowest) / spread) * 100 : 100;
+        } else {
+          // Lower-is-better metrics score the best (lowest) value as 100
+          normalizedScore = summary.lowerIsBetter
+            ? (value > 0 ? (lowest / value) * 100 : 100)
+            : (highest > 0 ? (value / highest) * 100 : 0);
+        }
         scores.push(normalizedScore);
       }
     });
@@ -186,16 +544,33 @@ export function generateComparisonAnalysis(results: ComparisonResult[], metrics:
     .sort(([,a], [,b]) => (b.highest - b.range[0]) - (a.highest - a.range[0]))[0];
 
   analysis.insights.push(
-    `Repository comparison across ${metrics.length} metrics for ${results.length} repositories`,
+    `Repository comparison across ${metrics.length} metrics for ${results.length} repositories (mode: ${mode})`,
     `Top performer overall: ${topPerformer ? topPerformer[0] : 'N/A'} (${topPerformer ? topPerformer[1].toFixed(1) : 0}% health score)`,
     `Most competitive metric: ${mostCompetitive ? mostCompetitive[0] : 'N/A'}`,
     `Analysis completed at ${new Date().toISOString()}`
   );
 
+  skipped.forEach(metric => {
+    analysis.insights.push(`${metric} is a network graph without a single value per repository and was not ranked`);
+  });
+  analysis.insights.push(...notes);
+
   // Add metric-specific insights
   Object.entries(analysis.winners).forEach(([metric, winner]) => {
     const summary = analysis.summary[metric];
-    if (summary && summary.highest > 0) {
+    if (!summary) return;
+    const statistic = summary.statistic ? `${summary.statistic} ` : '';
+    const best = summary.lowerIsBetter ? summary.range[0] : summary.highest;
+    if (mode === 'growth') {
+      const change = best >= 0 ? `+${best}%` : `${best}%`;
+      analysis.insights.push(`${winner} ${summary.lowerIsBetter ? 'improved' : 'grew'} the most in ${metric} (${statistic}${change}; ${summary.basis})`);
+    } else if (mode === 'age') {
+      analysis.insights.push(`${winner} leads in ${metric} at equal age with ${statistic}${best.toLocaleString()} (${summary.basis})`);
+    } else if (mode === 'per_contributor') {
+      analysis.insights.push(`${winner} leads in ${metric} per contributor with ${best.toLocaleString()}`);
+    } else if (summary.lowerIsBetter) {
+      analysis.insights.push(`${winner} leads in ${metric} with the lowest ${statistic}value of ${best.toLocaleString()}`);
+    } else if (summary.highest > 0) {
       const margin = summary.highest - summary.average;
       const dominanceLevel = margin > summary.average * 0.5 ? 'dominates' : 'leads';
       analysis.insights.push(`${winner} ${dominanceLevel} in ${metric} with ${summary.highest.toLocaleString()}`);
@@ -205,34 +580,71 @@ export function generateComparisonAnalysis(results: ComparisonResult[], metrics:
   return analysis;
 }
 
+const TIME_RANGE_MONTHS: Record<string, number> = {
+  '6m': 6,
+  '1y': 12,
+  '2y': 24,
+  '3y': 36
+};
+
+/**
+ * Shifts a `YYYY-MM` month by a number of months.
+ */
+export function shiftMonth(month: string, delta: number): string {
+  const [year, mon] = month.split('-').map(Number) as [number, number];
+  const index = year * 12 + (mon - 1) + delta;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Resolves the inclusive month window for a trend analysis. Relative ranges are anchored
+ * at the end of the latest period (OpenDigger data lags the calendar). Explicit dates replace
+ * timeRange entirely: a missing startDate means the first data point, a missing endDate the latest.
+ */
+function resolveTrendWindow(sortedPeriods: string[], granularity: Granularity, timeRange: string, options: TrendWindowOptions): TrendWindow {
+  const firstPeriod = sortedPeriods[0];
+  const lastPeriod = sortedPeriods[sortedPeriods.length - 1];
+  const earliest = firstPeriod ? periodBounds(firstPeriod, granularity)[0] : undefined;
+  const latest = lastPeriod ? periodBounds(lastPeriod, granularity)[1] : undefined;
+  const explicit = options.startDate !== undefined || options.endDate !== undefined;
+  const end = options.endDate ?? latest;
+  const months = TIME_RANGE_MONTHS[timeRange];
+  const start = explicit
+    ? options.startDate ?? earliest
+    : (end && months ? shiftMonth(end, -(months - 1)) : undefined);
+
+  const window: TrendWindow = {
+    requested: explicit ? `${options.startDate ?? 'beginning'}..${options.endDate ?? 'latest'}` : timeRange,
+    anchor: explicit ? 'explicit' : 'latest_data_point',
+    totalDataPoints: sortedPeriods.length
+  };
+  if (start) window.start = start;
+  if (end) window.end = end;
+  return window;
+}
+
 /**
- * Processes time-series data to generate a trend analysis.
+ * Processes time-series data to generate a trend analysis over a time window.
  *
  * @param data - The time-series data object.
- * @param timeRange - Optional time range string (not currently used).
- * @returns A trend analysis object with statistics, trend direction, and patterns.
+ * @param timeRange - Relative window ('6m', '1y', '2y', '3y') ending at the latest data point.
+ * @param options - Optional explicit `YYYY-MM` bounds (which take precedence over `timeRange`),
+ *                  series granularity and raw/smoothed selection.
+ * @returns A trend analysis object with statistics, trend direction, patterns, and the window used.
  */
-export function processTrendData(data: any, timeRange: string): TrendAnalysis {
-  if (!data || typeof data !== 'object') {
-    return createEmptyTrendAnalysis();
-  }
-
+export function processTrendData(data: any, timeRange: string, options: TrendWindowOptions & SeriesOptions = {}): TrendAnalysis {
   // Extract time-based data points
-  const timeSeriesKeys = Object.keys(data)
-    .filter(key => key.match(/^\d{4}-\d{2}(-\d{2})?$/)) // Match YYYY-MM or YYYY-MM-DD
-    .sort();
-
-  if (timeSeriesKeys.length === 0) {
-    return createEmptyTrendAnalysis();
-  }
+  const { points, info } = extractSeries(data, options);
+  const window = resolveTrendWindow(points.map(p => p.date), info.granularity, timeRange, options);
 
-  const values = timeSeriesKeys.map(key => ({
-    date: key,
-    value: typeof data[key] === 'number' ? data[key] : 0
-  })).filter(item => item.value >= 0); // Filter out negative values
+  // Keep periods that lie entirely inside the window
+  const values = points.filter(point => {
+    const [periodStart, periodEnd] = periodBounds(point.date, info.granularity);
+    return (!window.start || periodStart >= window.start) && (!window.end || periodEnd <= window.end);
+  }).filter(item => item.value >= 0); // Filter out negative values
 
   if (values.length === 0) {
-    return createEmptyTrendAnalysis();
+    return createEmptyTrendAnalysis(window, info);
   }
 
   // Calculate basic statistics
@@ -278,7 +690,7 @@ export function processTrendData(data: any, timeRange: string): TrendAnalysis {
   const growthPhases = detectGrowthPhases(values);
 
   // Simple seasonality detection
-  const hasSeasonality = detectSeasonality(values);
+  const hasSeasonality = info.granularity === 'monthly' && detectSeasonality(values);
 
   const timeRangeObj: { start?: string; end?: string } = {};
   const firstValueEntry = values[0];
@@ -288,6 +700,8 @@ export function processTrendData(data: any, timeRange: string): TrendAnalysis {
 
   return {
     dataPoints: values.length,
+    series: info,
+    window,
     timeRange: timeRangeObj,
     values: {
       first: firstValue,
@@ -314,11 +728,15 @@ export function processTrendData(data: any, timeRange: string): TrendAnalysis {
 /**
  * Creates an empty trend analysis object with default values.
  *
+ * @param window - The window that was requested but contained no data.
+ * @param series - The series that was selected.
  * @returns An empty TrendAnalysis object.
  */
-function createEmptyTrendAnalysis(): TrendAnalysis {
+function createEmptyTrendAnalysis(window: TrendWindow, series: SeriesInfo): TrendAnalysis {
   return {
     dataPoints: 0,
+    series,
+    window,
     timeRange: {},
     values: { first: 0, last: 0, peak: 0, lowest: 0, average: 0, median: 0 },
     trend: {
@@ -452,11 +870,34 @@ function detectSeasonality(values: Array<{date: string; value: number}>): boolea
  * NOTE: The suggestions have been generated with AI, so I'd request @frank-zsy / @birdflyi to help enhance this further.
  *
  * @param errorMessage - The error message to analyze.
+ * @param details - Optional upstream failure details (kind, attempt count, status) for more precise advice.
  * @returns Array of suggestions for resolving the error.
  */
-export function generateErrorSuggestions(errorMessage: string): string[] {
+export function generateErrorSuggestions(errorMessage: string, details?: UpstreamErrorDetails): string[] {
   const suggestions = [];
   const message = errorMessage.toLowerCase();
+  // A definitive client error (e.g. 404) means the upstream is reachable, so connectivity advice would mislead
+  const isClientError = details?.kind === 'http' && details.status !== undefined &&
+    details.status >= 400 && details.status < 500 && details.status !== 408 && details.status !== 429;
+
+  if (details?.kind === 'circuit_open') {
+    const seconds = Math.ceil((details.retryAfterMs ?? 0) / 1000);
+    suggestions.push(`OpenDigger has failed repeatedly, so requests are paused; retry in about ${seconds}s`);
+    suggestions.push('Point OPENDIGGER_DATA_SOURCE at a local mirror or snapshot to keep working offline');
+  }
+
+  if (details?.kind === 'timeout') {
+    suggestions.push(`The request timed out on ${details.attempts === 1 ? 'its only attempt' : `all ${details.attempts} attempts`}; the upstream may be slow or unreachable`);
+    suggestions.push('Increase FETCH_TIMEOUT_MS for large metrics such as developer_network');
+  }
+
+  if (details && details.attempts > 1) {
+    suggestions.push(`The server already made ${details.attempts} attempts with exponential backoff; retrying immediately is unlikely to help`);
+  }
+
+  if (details?.status !== undefined && details.status >= 500) {
+    suggestions.push('OpenDigger returned a server error; wait a few minutes before retrying');
+  }
 
   if (message.includes('validation') || message.includes('invalid input')) {
     suggestions.push('Check that all required parameters are provided');
@@ -472,7 +913,8 @@ export function generateErrorSuggestions(errorMessage: string): string[] {
     suggestions.push('Try a different metric or check OpenDigger documentation');
   }
 
-  if (message.includes('network') || message.includes('timeout') || message.includes('fetch')) {
+  // Word match, so that metric names such as developer_network do not count
+  if (!isClientError && (/\bnetwork\b/.test(message) || message.includes('timeout') || message.includes('fetch'))) {
     suggestions.push('Check your internet connection');
     suggestions.push('Try again in a few moments - the API might be temporarily unavailable');
     suggestions.push('Consider using cached data if available');
@@ -486,6 +928,11 @@ export function generateErrorSuggestions(errorMessage: string): string[] {
     suggestions.push('Check if you are making too many concurrent requests');
   }
 
+  if (message.includes('not available for users')) {
+    suggestions.push('Developers only have the metrics listed in the error; repository metrics need owner and repo');
+    suggestions.push('Use developer_profile to see which metrics exist for a developer');
+  }
+
   if (message.includes('missing required field')) {
     suggestions.push('For repository metrics: provide both owner and repo parameters');
     suggestions.push('For user metrics: provide the login parameter');
@@ -493,7 +940,8 @@ export function generateErrorSuggestions(errorMessage: string): string[] {
     suggestions.push('Ensure all required fields are specified and not empty');
   }
 
-  if (message.includes('parse') || message.includes('json')) {
+  // Upstream failures mention `.json` paths, which must not be mistaken for parse errors
+  if (!details && (message.includes('parse') || message.includes('json'))) {
     suggestions.push('Check the data format returned by the API');
     suggestions.push('Verify the metric data is in the expected format');
     suggestions.push('Try a different metric or repository');
@@ -510,6 +958,110 @@ export function generateErrorSuggestions(errorMessage: string): string[] {
   return suggestions;
 }
 
+/**
+ * Weight and log-scale reference of one metric in the absolute health score. A latest value equal
+ * to `reference` (or above) scores 100; 1 or less scores 0.
+ */
+export interface HealthMetricModel {
+  weight: number;
+  reference: number;
+}
+
+export const DEFAULT_HEALTH_MODEL: Record<string, HealthMetricModel> = {
+  openrank: { weight: 0.25, reference: 1000 },
+  stars: { weight: 0.20, reference: 50000 },
+  contributors: { weight: 0.20, reference: 1000 },
+  participants: { weight: 0.15, reference: 5000 },
+  forks: { weight: 0.10, reference: 20000 },
+  commits: { weight: 0.10, reference: 100000 }
+};
+
+/**
+ * How metrics without data are treated: dropped with the remaining weights rescaled, or scored as 0.
+ */
+export type MissingMetricPolicy = 'renormalize' | 'zero';
+
+/**
+ * Contribution of one metric to a health score.
+ */
+export interface HealthScoreComponent {
+  metric: string;
+  status: 'scored' | 'missing';
+  value: number | null;
+  reference: number;
+  /** Sub-score between 0 and 100. */
+  normalizedScore: number | null;
+  weight: number;
+  /** Weight after rescaling for missing metrics. */
+  effectiveWeight: number;
+  /** Points this metric adds to the total. */
+  contribution: number;
+}
+
+export interface HealthScoreBreakdown {
+  score: number;
+  components: HealthScoreComponent[];
+  missingMetrics: string[];
+  /** Share of the total weight backed by data. */
+  coverage: number;
+  missingPolicy: MissingMetricPolicy;
+}
+
+/**
+ * Scores a repository on an absolute log scale, independent of any other repository, and
+ * explains how every metric contributed.
+ *
+ * @param metrics - Object containing metric names and their data (number or metric file).
+ * @param options - Scoring model, treatment of missing metrics, and series selection.
+ * @returns The score (0-100) with per-metric sub-scores, weights and contributions.
+ */
+export function calculateHealthScoreBreakdown(
+  metrics: Record<string, any>,
+  options: SeriesOptions & { model?: Record<string, HealthMetricModel> | undefined; missingPolicy?: MissingMetricPolicy | undefined } = {}
+): HealthScoreBreakdown {
+  const model = options.model ?? DEFAULT_HEALTH_MODEL;
+  const missingPolicy = options.missingPolicy ?? 'renormalize';
+  const totalWeight = Object.values(model).reduce((sum, entry) => sum + entry.weight, 0);
+
+  const scored = Object.entries(model).map(([metric, { weight, reference }]) => {
+    const value = metrics[metric] !== undefined
+      ? extractLatestValue(metrics[metric], { granularity: options.granularity, raw: options.raw, metric })
+      : null;
+    // Normalize with logarithmic scaling for better distribution across project sizes
+    const normalizedScore = value !== null
+      ? Math.min(Math.log10(Math.max(1, value)) / Math.log10(reference), 1) * 100
+      : null;
+    return { metric, weight, reference, value, normalizedScore };
+  });
+
+  const scoredWeight = scored.reduce((sum, entry) => sum + (entry.normalizedScore !== null ? entry.weight : 0), 0);
+  const weightBase = missingPolicy === 'renormalize' ? scoredWeight : totalWeight;
+
+  const components: HealthScoreComponent[] = scored.map(entry => {
+    const counted = entry.normalizedScore !== null || missingPolicy === 'zero';
+    const effectiveWeight = counted && weightBase > 0 ? entry.weight / weightBase : 0;
+    return {
+      metric: entry.metric,
+      status: entry.normalizedScore !== null ? 'scored' : 'missing',
+      value: entry.value,
+      reference: entry.reference,
+      normalizedScore: entry.normalizedScore !== null ? Number(entry.normalizedScore.toFixed(2)) : null,
+      weight: entry.weight,
+      effectiveWeight: Number(effectiveWeight.toFixed(4)),
+      contribution: Number(((entry.normalizedScore ?? 0) * effectiveWeight).toFixed(2))
+    };
+  });
+
+  const total = scored.reduce((sum, entry) => sum + (entry.normalizedScore ?? 0) * (weightBase > 0 ? entry.weight / weightBase : 0), 0);
+  return {
+    score: Math.round(total),
+    components,
+    missingMetrics: components.filter(component => component.status === 'missing').map(component => component.metric),
+    coverage: totalWeight > 0 ? Number((scoredWeight / totalWeight).toFixed(4)) : 0,
+    missingPolicy
+  };
+}
+
 /**
  * Calculates a health score for a repository based on weighted metrics.
  *
@@ -517,49 +1069,5 @@ export function generateErrorSuggestions(errorMessage: string): string[] {
  * @returns A health score between 0 and 100.
  */
 export function calculateHealthScore(metrics: Record<string, any>): number {
-  const weights = {
-    openrank: 0.25,
-    stars: 0.20,
-    contributors: 0.20,
-    participants: 0.15,
-    forks: 0.10,
-    commits: 0.10
-  };
-
-  let totalScore = 0;
-  let totalWeight = 0;
-
-  Object.entries(weights).forEach(([metric, weight]) => {
-    if (metrics[metric] !== undefined) {
-      const value = extractLatestValue(metrics[metric]);
-      // Normalize score based on typical ranges with logarithmic scaling for better distribution
-      let normalizedScore = 0;
-
-      switch (metric) {
-        case 'openrank':
-          normalizedScore = Math.min(Math.log10(Math.max(1, value)) / Math.log10(1000), 1) * 100;
-          break;
-        case 'stars':
-          normalizedScore = Math.min(Math.log10(Math.max(1, value)) / Math.log10(50000), 1) * 100;
-          break;
-        case 'contributors':
-          normalizedScore = Math.min(Math.log10(Math.max(1, value)) / Math.log10(1000), 1) * 100;
-          break;
-        case 'participants':
-          normalizedScore = Math.min(Math.log10(Math.max(1, value)) / Math.log10(5000), 1) * 100;
-          break;
-        case 'forks':
-          normalizedScore = Math.min(Math.log10(Math.max(1, value)) / Math.log10(20000), 1) * 100;
-          break;
-        case 'commits':
-          normalizedScore = Math.min(Math.log10(Math.max(1, value)) / Math.log10(100000), 1) * 100;
-          break;
-      }
-
-      totalScore += normalizedScore * weight;
-      totalWeight += weight;
-    }
-  });
-
-  return totalWeight > 0 ? Math.round(totalScore / totalWeight) : 0;
+  return calculateHealthScoreBreakdown(metrics).score;
 }
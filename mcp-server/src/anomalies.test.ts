@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { detectAnomalies } from './anomalies.js';
+import { shiftMonth } from './analysis.js';
+
+const series = (values: number[]) => values.map((value, i) => ({ date: shiftMonth('2021-01', i), value }));
+
+// Small deterministic wiggle so the series is not perfectly flat
+const noise = (i: number) => [0, 1, -1, 2, -2, 1][i % 6]!;
+
+describe('detectAnomalies', () => {
+  it('flags a single spike against its rolling baseline', () => {
+    const values = Array.from({ length: 24 }, (_, i) => 100 + noise(i));
+    values[10] = 300;
+    const report = detectAnomalies(series(values));
+
+    expect(report.anomalies).toHaveLength(1);
+    expect(report.anomalies[0]).toMatchObject({ date: '2021-11', actual: 300, direction: 'spike', severity: 'high' });
+    expect(Math.abs(report.anomalies[0]!.expected - 100)).toBeLessThanOrEqual(2);
+    expect(report.changePoints).toEqual([]);
+  });
+
+  it('flags drops as well as spikes', () => {
+    const values = Array.from({ length: 24 }, (_, i) => 100 + noise(i));
+    values[15] = 5;
+    expect(detectAnomalies(series(values)).anomalies[0]).toMatchObject({ date: '2022-04', direction: 'drop' });
+  });
+
+  it('reports a level shift as a change point rather than a run of outliers', () => {
+    const values = Array.from({ length: 24 }, (_, i) => (i < 12 ? 100 : 40) + noise(i));
+    const report = detectAnomalies(series(values));
+
+    expect(report.anomalies).toEqual([]);
+    expect(report.changePoints).toHaveLength(1);
+    expect(report.changePoints[0]).toMatchObject({ date: '2022-01', direction: 'decrease', severity: 'high' });
+    expect(report.segments.map(segment => [segment.start, segment.end])).toEqual([['2021-01', '2021-12'], ['2022-01', '2022-12']]);
+  });
+
+  it('keeps trending series free of findings', () => {
+    const report = detectAnomalies(series(Array.from({ length: 36 }, (_, i) => 10 + i * 2 + noise(i) * 0.1)));
+    expect(report.anomalies).toEqual([]);
+  });
+
+  it('honors the threshold option', () => {
+    const values = Array.from({ length: 24 }, (_, i) => 100 + noise(i));
+    values[8] = 112;
+    expect(detectAnomalies(series(values), { threshold: 50 }).anomalies).toEqual([]);
+    expect(detectAnomalies(series(values), { threshold: 3 }).anomalies.map(anomaly => anomaly.date)).toContain('2021-09');
+  });
+
+  it('returns an empty report for very short series', () => {
+    const report = detectAnomalies(series([1, 100]));
+    expect(report).toMatchObject({ dataPoints: 2, anomalies: [], changePoints: [], segments: [] });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * @file anomalies.ts
+ * @description
+ * Anomaly and change-point detection for OpenDigger metric series.
+ *
+ * - Outliers: each point is compared with a centered rolling median; the residuals are scored
+ *   with the robust (MAD-based) z-score of Iglewicz and Hoaglin, so single spikes and drops are
+ *   flagged without the long-term trend or a few extreme months distorting the baseline.
+ * - Change points: binary segmentation on the mean, accepting a split only when it reduces the
+ *   squared error by more than a BIC-style penalty. This finds regime shifts (a maintainer
+ *   leaving, a viral launch) rather than month-to-month noise.
+ */
+
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+/**
+ * A single period whose value deviates strongly from its local baseline.
+ */
+export interface Anomaly {
+  date: string;
+  actual: number;
+  expected: number;
+  deviation: number;
+  robustZScore: number;
+  direction: 'spike' | 'drop';
+  severity: AnomalySeverity;
+}
+
+/**
+ * A structural break: the mean level of the series before and after `date` differs significantly.
+ */
+export interface ChangePoint {
+  date: string;
+  meanBefore: number;
+  meanAfter: number;
+  changePercent: number | null;
+  direction: 'increase' | 'decrease';
+  severity: AnomalySeverity;
+}
+
+export interface AnomalyOptions {
+  /** Robust z-score above which a point is an outlier (default: 3.5). */
+  threshold?: number | undefined;
+  /** Width of the centered rolling median used as baseline (default: 5). */
+  baselineWindow?: number | undefined;
+  /** Maximum number of change points to report (default: 5). */
+  maxChangePoints?: number | undefined;
+  /** Minimum number of periods on each side of a change point (default: 3). */
+  minSegmentLength?: number | undefined;
+}
+
+/**
+ * Represents the result of scanning a series for anomalies and change points.
+ */
+export interface AnomalyReport {
+  dataPoints: number;
+  anomalies: Anomaly[];
+  changePoints: ChangePoint[];
+  segments: Array<{ start: string; end: string; mean: number }>;
+  method: {
+    outliers: string;
+    changePoints: string;
+    threshold: number;
+    baselineWindow: number;
+  };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/**
+ * Rolling median centered on each point (excluding the point itself), shrinking at the edges.
+ * Neighbours are taken from the same segment only, so a level shift is not mistaken for an outlier.
+ */
+function rollingBaseline(values: number[], window: number, edges: number[]): number[] {
+  const half = Math.floor(window / 2);
+  return values.map((_, i) => {
+    const segment = edges.findIndex(edge => edge > i);
+    const from = Math.max(edges[segment - 1] ?? 0, i - half);
+    const to = Math.min(edges[segment] ?? values.length, i + half + 1);
+    return median(values.slice(from, i).concat(values.slice(i + 1, to)));
+  });
+}
+
+function outlierSeverity(score: number, threshold: number): AnomalySeverity {
+  if (score >= threshold * 2) return 'high';
+  if (score >= threshold * 1.5) return 'medium';
+  return 'low';
+}
+
+/**
+ * Scores every point against its rolling baseline and returns the indices above the threshold.
+ */
+function scoreOutliers(values: number[], threshold: number, window: number, edges: number[]) {
+  const baseline = rollingBaseline(values, window, edges);
+  const residuals = values.map((value, i) => value - baseline[i]!);
+  const residualMedian = median(residuals);
+  const mad = median(residuals.map(r => Math.abs(r - residualMedian)));
+  // With a MAD of zero (mostly flat series), fall back to the mean absolute deviation
+  const scale = mad > 0 ? mad / 0.6745 : mean(residuals.map(r => Math.abs(r - residualMedian))) * 1.2533;
+
+  const outliers: Array<{ index: number; score: number }> = [];
+  if (scale > 0) {
+    residuals.forEach((residual, index) => {
+      const score = (residual - residualMedian) / scale;
+      if (Math.abs(score) >= threshold) outliers.push({ index, score });
+    });
+  }
+  return { baseline, residuals, outliers, scale };
+}
+
+/**
+ * Outliers that stand out from their neighbours on both sides. A point next to a level shift
+ * only differs from the other regime, so it is left in place for change-point detection.
+ */
+function isolatedOutliers(values: number[], threshold: number, window: number) {
+  const { baseline, outliers, scale } = scoreOutliers(values, threshold, window, [values.length]);
+  const half = Math.floor(window / 2);
+  const isolated = outliers.filter(({ index, score }) => {
+    const sides = [values.slice(Math.max(0, index - half), index), values.slice(index + 1, index + half + 1)]
+      .filter(side => side.length > 0);
+    return sides.every(side => ((values[index]! - median(side)) / scale) * Math.sign(score) >= threshold);
+  });
+  return { baseline, outliers: isolated };
+}
+
+function segmentCost(prefix: number[], prefixSq: number[], start: number, end: number): number {
+  const n = end - start;
+  if (n <= 0) return 0;
+  const sum = prefix[end]! - prefix[start]!;
+  return prefixSq[end]! - prefixSq[start]! - (sum * sum) / n;
+}
+
+/**
+ * Binary segmentation on the mean with a BIC-style penalty (2 * sigma^2 * ln n), where sigma is
+ * estimated robustly from first differences so that level shifts do not inflate it.
+ */
+function detectChangePoints(values: number[], maxChangePoints: number, minSegment: number): number[] {
+  const n = values.length;
+  if (n < minSegment * 2) return [];
+
+  const prefix = [0];
+  const prefixSq = [0];
+  values.forEach((value, i) => {
+    prefix.push(prefix[i]! + value);
+    prefixSq.push(prefixSq[i]! + value * value);
+  });
+
+  const diffs = values.slice(1).map((value, i) => value - values[i]!);
+  const sigma = median(diffs.map(d => Math.abs(d - median(diffs)))) / (0.6745 * Math.SQRT2);
+  const penalty = 2 * Math.max(sigma * sigma, 1e-9) * Math.log(n);
+
+  const boundaries: number[] = [];
+  const segments: Array<[number, number]> = [[0, n]];
+
+  while (boundaries.length < maxChangePoints) {
+    let best: { gain: number; split: number; segment: number } | undefined;
+    segments.forEach(([start, end], index) => {
+      const total = segmentCost(prefix, prefixSq, start, end);
+      for (let split = start + minSegment; split <= end - minSegment; split++) {
+        const gain = total - segmentCost(prefix, prefixSq, start, split) - segmentCost(prefix, prefixSq, split, end);
+        if (!best || gain > best.gain) best = { gain, split, segment: index };
+      }
+    });
+    if (!best || best.gain <= penalty) break;
+
+    const [start, end] = segments[best.segment]!;
+    segments.splice(best.segment, 1, [start, best.split], [best.split, end]);
+    boundaries.push(best.split);
+  }
+
+  return boundaries.sort((a, b) => a - b);
+}
+
+function changeSeverity(changePercent: number | null): AnomalySeverity {
+  if (changePercent === null || Math.abs(changePercent) >= 50) return 'high';
+  if (Math.abs(changePercent) >= 20) return 'medium';
+  return 'low';
+}
+
+/**
+ * Scans a sorted series for outlier periods and structural change points.
+ *
+ * @param points - Sorted time series (as produced by `extractSeries`).
+ * @param options - Detection thresholds.
+ * @returns Outliers with expected vs. actual values, change points, and the resulting segments.
+ */
+export function detectAnomalies(points: Array<{date: string; value: number}>, options: AnomalyOptions = {}): AnomalyReport {
+  const threshold = options.threshold ?? 3.5;
+  const baselineWindow = Math.max(3, options.baselineWindow ?? 5);
+  const values = points.map(p => p.value);
+
+  const report: AnomalyReport = {
+    dataPoints: points.length,
+    anomalies: [],
+    changePoints: [],
+    segments: [],
+    method: {
+      outliers: `robust z-score (MAD) of residuals from a ${baselineWindow}-period rolling median`,
+      changePoints: 'binary segmentation on the mean with BIC penalty',
+      threshold,
+      baselineWindow
+    }
+  };
+  if (points.length < 3) return report;
+
+  // Isolated outliers are replaced by their baseline first, so that a single spike is not reported
+  // as a short regime; the final outlier pass then uses baselines from within each segment
+  const preliminary = isolatedOutliers(values, threshold, baselineWindow);
+  const cleaned = [...values];
+  preliminary.outliers.forEach(({ index }) => { cleaned[index] = preliminary.baseline[index]!; });
+
+  const boundaries = detectChangePoints(cleaned, options.maxChangePoints ?? 5, Math.max(2, options.minSegmentLength ?? 3));
+  const edges = [0, ...boundaries, points.length];
+
+  const { baseline, residuals, outliers } = scoreOutliers(values, threshold, baselineWindow, edges.slice(1));
+  report.anomalies = outliers.map(({ index, score }) => ({
+    date: points[index]!.date,
+    actual: values[index]!,
+    expected: round(baseline[index]!),
+    deviation: round(residuals[index]!),
+    robustZScore: round(score),
+    direction: score > 0 ? 'spike' : 'drop',
+    severity: outlierSeverity(Math.abs(score), threshold)
+  }));
+
+  report.segments = edges.slice(1).map((end, i) => ({
+    start: points[edges[i]!]!.date,
+    end: points[end - 1]!.date,
+    mean: round(mean(cleaned.slice(edges[i]!, end)))
+  }));
+  report.changePoints = boundaries.map((boundary, i) => {
+    const before = report.segments[i]!.mean;
+    const after = report.segments[i + 1]!.mean;
+    const changePercent = before !== 0 ? Number((((after - before) / Math.abs(before)) * 100).toFixed(2)) : null;
+    return {
+      date: points[boundary]!.date,
+      meanBefore: before,
+      meanAfter: after,
+      changePercent,
+      direction: after >= before ? 'increase' : 'decrease',
+      severity: changeSeverity(changePercent)
+    };
+  });
+
+  return report;
+}
@@ -0,0 +1,214 @@
+/**
+ * @file auth.ts
+ * @description
+ * API-key authentication, tool scopes, origin allowlist and audit logging for the HTTP server.
+ *
+ * Keys come from MCP_API_KEYS (comma-separated `name:key` pairs, allowed to call every tool)
+ * and from the JSON or YAML file named by MCP_API_KEYS_FILE, whose entries may be limited to
+ * specific tools:
+ *
+ *   keys:
+ *     - name: dashboard
+ *       key: 3f9c1e...             # at least 16 characters
+ *       tools: [get_open_digger_metric, compare_repositories]
+ *     - name: analysts
+ *       key: 8a02bd...
+ *
+ * Clients send a key as `Authorization: Bearer <key>` or `X-API-Key: <key>`. When no key is
+ * configured, authentication is off and the server behaves as before. CORS_ALLOWED_ORIGINS
+ * lists the browser origins allowed to call the server; without it any origin is accepted.
+ */
+
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { IncomingMessage } from 'node:http';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+const MIN_KEY_LENGTH = 16;
+
+export interface ApiClient {
+  name: string;
+  /** Tools the key may call; null for all tools. */
+  tools: string[] | null;
+  source: 'env' | 'file';
+}
+
+interface StoredKey extends ApiClient {
+  digest: Buffer;
+}
+
+export type AuthResult =
+  | { ok: true; client: ApiClient | null }
+  | { ok: false; reason: 'missing' | 'invalid' };
+
+const keysFileSchema = z.object({
+  keys: z.array(z.object({
+    name: z.string().regex(/^[A-Za-z0-9][\w.-]*$/, 'Key names may contain letters, digits, ".", "_" and "-"'),
+    key: z.string().min(MIN_KEY_LENGTH, `Keys must be at least ${MIN_KEY_LENGTH} characters`),
+    tools: z.array(z.string()).min(1).optional()
+  }).strict())
+}).strict();
+
+let apiKeys: StoredKey[] = [];
+
+const digestOf = (key: string) => createHash('sha256').update(key).digest();
+
+/**
+ * Path of the API key file, if one is configured.
+ */
+export function getApiKeysFile(): string | undefined {
+  const file = process.env.MCP_API_KEYS_FILE?.trim();
+  return file ? path.resolve(file) : undefined;
+}
+
+function readEnvKeys(): StoredKey[] {
+  const entries = (process.env.MCP_API_KEYS ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+  return entries.map((entry, index) => {
+    const separator = entry.indexOf(':');
+    const name = separator > 0 ? entry.slice(0, separator) : `env-${index + 1}`;
+    const key = separator > 0 ? entry.slice(separator + 1) : entry;
+    if (key.length < MIN_KEY_LENGTH) {
+      throw new Error(`Invalid MCP_API_KEYS entry "${name}": keys must be at least ${MIN_KEY_LENGTH} characters`);
+    }
+    return { name, tools: null, source: 'env' as const, digest: digestOf(key) };
+  });
+}
+
+function readFileKeys(file: string, knownTools: string[]): StoredKey[] {
+  let parsed: unknown;
+  try {
+    const text = readFileSync(file, 'utf8');
+    parsed = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Cannot read API keys from ${file}: ${(error as Error).message}`);
+  }
+  const result = keysFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.errors[0]!;
+    throw new Error(`Invalid API keys in ${file} at ${issue.path.join('.') || '<root>'}: ${issue.message}`);
+  }
+
+  return result.data.keys.map(entry => {
+    // A misspelt tool would silently deny every call to it, so reject unknown names up front
+    const unknown = (entry.tools ?? []).filter(tool => !knownTools.includes(tool));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid API keys in ${file}: key "${entry.name}" lists unknown tools ${unknown.join(', ')}`);
+    }
+    return { name: entry.name, tools: entry.tools ?? null, source: 'file' as const, digest: digestOf(entry.key) };
+  });
+}
+
+/**
+ * Loads the API keys from the environment and the key file. Called once at startup so that a
+ * broken configuration stops the server instead of locking clients out.
+ *
+ * @param knownTools - Names of all tools, to validate key scopes against.
+ * @returns The number of keys loaded (0 disables authentication).
+ * @throws Error if a key is too short, the file is invalid, or two entries share a name or key.
+ */
+export function loadApiKeys(knownTools: string[]): number {
+  const file = getApiKeysFile();
+  const loaded = [...readEnvKeys(), ...(file ? readFileKeys(file, knownTools) : [])];
+
+  loaded.forEach((entry, index) => {
+    const earlier = loaded.slice(0, index);
+    if (earlier.some(other => other.name === entry.name)) throw new Error(`Duplicate API key name "${entry.name}"`);
+    if (earlier.some(other => other.digest.equals(entry.digest))) throw new Error(`API key "${entry.name}" duplicates another key`);
+  });
+
+  apiKeys = loaded;
+  return loaded.length;
+}
+
+export function isAuthEnabled(): boolean {
+  return apiKeys.length > 0;
+}
+
+/**
+ * Identifies the client of a request from its Authorization or X-API-Key header.
+ */
+export function authenticate(req: IncomingMessage): AuthResult {
+  if (!isAuthEnabled()) return { ok: true, client: null };
+
+  const authorization = req.headers.authorization;
+  const apiKeyHeader = req.headers['x-api-key'];
+  let presented: string | undefined;
+  if (authorization?.toLowerCase().startsWith('bearer ')) presented = authorization.slice(7).trim();
+  else if (typeof apiKeyHeader === 'string') presented = apiKeyHeader.trim();
+  if (!presented) return { ok: false, reason: 'missing' };
+
+  // Comparing fixed-length digests keeps the comparison time independent of the key
+  const digest = digestOf(presented);
+  const match = apiKeys.find(entry => timingSafeEqual(entry.digest, digest));
+  if (!match) return { ok: false, reason: 'invalid' };
+  return { ok: true, client: { name: match.name, tools: match.tools, source: match.source } };
+}
+
+/**
+ * Whether a client may call a tool; always true when authentication is off.
+ */
+export function isToolAllowed(client: ApiClient | null, tool: string): boolean {
+  return !client?.tools || client.tools.includes(tool);
+}
+
+/**
+ * Names of the tools called by a JSON-RPC message or batch.
+ */
+export function toolCallsIn(body: unknown): string[] {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.flatMap(message => {
+    if (typeof message !== 'object' || message === null || (message as { method?: unknown }).method !== 'tools/call') return [];
+    const name = (message as { params?: { name?: unknown } }).params?.name;
+    return [typeof name === 'string' ? name : '<missing>'];
+  });
+}
+
+/**
+ * Browser origins allowed by CORS_ALLOWED_ORIGINS, or null when any origin is accepted.
+ */
+export function getAllowedOrigins(): string[] | null {
+  const origins = (process.env.CORS_ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim().replace(/\/$/, '')).filter(Boolean);
+  return origins.length > 0 && !origins.includes('*') ? origins : null;
+}
+
+/**
+ * Whether a request's Origin is allowed. Requests without an Origin header come from
+ * non-browser clients, which CORS does not apply to.
+ */
+export function isOriginAllowed(origin: string | undefined): boolean {
+  const allowed = getAllowedOrigins();
+  return origin === undefined || allowed === null || allowed.includes(origin);
+}
+
+export interface AuditEntry {
+  client: string | null;
+  ip: string | undefined;
+  method: string | undefined;
+  path: string;
+  status: number;
+  tools?: string[] | undefined;
+  detail?: string | undefined;
+}
+
+/**
+ * Writes one audit line per request to stderr.
+ */
+export function auditLog(entry: AuditEntry) {
+  console.error(`[audit] ${JSON.stringify({ time: new Date().toISOString(), ...entry })}`);
+}
+
+/**
+ * Describes the authentication setup for health reporting, without revealing keys.
+ */
+export function getAuthStats() {
+  return {
+    enabled: isAuthEnabled(),
+    keys: apiKeys.length,
+    scopedKeys: apiKeys.filter(entry => entry.tools !== null).length,
+    keysFile: getApiKeysFile() ?? null,
+    allowedOrigins: getAllowedOrigins() ?? '*'
+  };
+}
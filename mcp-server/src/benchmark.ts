@@ -0,0 +1,158 @@
+/**
+ * @file benchmark.ts
+ * @description
+ * Places a repository's metrics within the distribution of a peer cohort.
+ *
+ * Every value is read at the repository's latest period, so cohort members are compared at the
+ * same point in time and archived members (with no data for that period) drop out. The percentile
+ * rank uses the mid-rank convention (ties count half), and a value is an outlier when it lies
+ * outside Tukey's fences (1.5 IQR beyond the quartiles). Counts such as stars are heavy-tailed,
+ * so the fences of non-negative metrics are computed on log(1 + value).
+ */
+
+
+import { extractSeries, type SeriesOptions } from './analysis.js';
+import type { SeriesStatistic } from './metrics.js';
+
+/**
+ * Cohort sizes below this are reported, but flagged as too small for stable percentiles.
+ */
+const MIN_STABLE_COHORT = 10;
+
+export interface CohortDistribution {
+  size: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  max: number;
+}
+
+export interface MetricBenchmark {
+  metric: string;
+  period: string | null;
+  value: number | null;
+  /** Share of the cohort below the value (ties count half), 0-100. */
+  percentileRank: number | null;
+  /** Share of the cohort the repository does better than, taking lowerIsBetter into account. */
+  betterThan: number | null;
+  lowerIsBetter: boolean;
+  statistic?: SeriesStatistic | undefined;
+  cohort: CohortDistribution | null;
+  outlier: 'high' | 'low' | null;
+  /** Members without data for `period`. */
+  excludedMembers: number;
+}
+
+export interface BenchmarkReport {
+  metrics: MetricBenchmark[];
+  outliers: string[];
+  notes: string[];
+}
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Quantile with linear interpolation between closest ranks.
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+}
+
+function valueAt(data: unknown, options: SeriesOptions, period?: string) {
+  if (data === undefined) return undefined;
+  const series = extractSeries(data, options);
+  const point = period === undefined
+    ? series.points[series.points.length - 1]
+    : series.points.find(candidate => candidate.date === period);
+  return { point, info: series.info };
+}
+
+function benchmarkMetric(target: Record<string, unknown>, cohort: Array<Record<string, unknown>>, metric: string, options: SeriesOptions): MetricBenchmark {
+  const seriesOptions = { ...options, metric };
+  const own = valueAt(target[metric], seriesOptions);
+  const lowerIsBetter = own?.info.lowerIsBetter ?? false;
+  const empty: MetricBenchmark = {
+    metric, period: null, value: null, percentileRank: null, betterThan: null, lowerIsBetter,
+    statistic: own?.info.statistic, cohort: null, outlier: null, excludedMembers: cohort.length
+  };
+  if (!own?.point) return empty;
+
+  const period = own.point.date;
+  const values = cohort.flatMap(member => {
+    const point = valueAt(member[metric], seriesOptions, period)?.point;
+    return point ? [point.value] : [];
+  }).sort((a, b) => a - b);
+  const result = { ...empty, period, value: round(own.point.value), excludedMembers: cohort.length - values.length };
+  if (values.length === 0) return result;
+
+  const value = own.point.value;
+  const below = values.filter(v => v < value).length;
+  const equal = values.filter(v => v === value).length;
+  const above = values.length - below - equal;
+  const percentileRank = ((below + equal / 2) / values.length) * 100;
+
+  const scale = values[0]! >= 0 && value >= 0 ? (v: number) => Math.log1p(v) : (v: number) => v;
+  const scaled = values.map(scale);
+  const q1 = quantile(scaled, 0.25);
+  const q3 = quantile(scaled, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  let outlier: MetricBenchmark['outlier'] = null;
+  if (scale(value) > q3 + fence) outlier = 'high';
+  else if (scale(value) < q1 - fence) outlier = 'low';
+
+  return {
+    ...result,
+    percentileRank: round(percentileRank),
+    betterThan: round((((lowerIsBetter ? above : below) + equal / 2) / values.length) * 100),
+    cohort: {
+      size: values.length,
+      min: round(values[0]!),
+      p25: round(quantile(values, 0.25)),
+      median: round(quantile(values, 0.5)),
+      p75: round(quantile(values, 0.75)),
+      p90: round(quantile(values, 0.9)),
+      max: round(values[values.length - 1]!)
+    },
+    outlier
+  };
+}
+
+/**
+ * Benchmarks a repository against a cohort, metric by metric.
+ *
+ * @param target - Metric files of the benchmarked repository, keyed by metric name.
+ * @param cohort - Metric files of each cohort member (the repository itself excluded).
+ * @param metrics - Metrics to benchmark.
+ * @param options - Raw/smoothed and statistic selection for the series.
+ * @returns Percentile rank, cohort distribution and outlier status per metric.
+ */
+export function benchmarkRepository(
+  target: Record<string, unknown>,
+  cohort: Array<Record<string, unknown>>,
+  metrics: string[],
+  options: SeriesOptions = {}
+): BenchmarkReport {
+  const results = metrics.map(metric => benchmarkMetric(target, cohort, metric, options));
+
+  const outliers = results.flatMap(result => {
+    if (!result.outlier || !result.cohort) return [];
+    const favourable = (result.outlier === 'high') !== result.lowerIsBetter;
+    return [`${result.metric} is a ${result.outlier} outlier (${result.value} vs cohort median ${result.cohort.median}), ${favourable ? 'well ahead of' : 'well behind'} the cohort`];
+  });
+
+  const notes: string[] = [];
+  results.forEach(result => {
+    if (result.value === null) notes.push(`No ${result.metric} data for the repository`);
+    else if (!result.cohort) notes.push(`No cohort member has ${result.metric} data for ${result.period}`);
+    else if (result.cohort.size < MIN_STABLE_COHORT) {
+      notes.push(`Only ${result.cohort.size} cohort members have ${result.metric} data for ${result.period}; percentiles are coarse`);
+    }
+  });
+
+  return { metrics: results, outliers, notes };
+}
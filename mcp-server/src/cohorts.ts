@@ -0,0 +1,186 @@
+/**
+ * @file cohorts.ts
+ * @description
+ * Contributor retention and churn by monthly cohort.
+ *
+ * A cohort is the set of contributors whose first contribution falls in a month
+ * (`new_contributors_detail`). Retention at k months is the share of the cohort that is active
+ * (`activity_details`) at least once in the three months starting k months after joining, which
+ * tolerates the gaps typical of volunteer contributors. Churn for a month is the share of that
+ * month's active contributors who are not seen again in the following three months.
+ *
+ * When only aggregate counts are available (`contributors`, `new_contributors`,
+ * `inactive_contributors`), cohort sizes and an inactive ratio are still reported, but
+ * identity-based retention and churn are left null.
+ */
+
+
+import { extractSeries, shiftMonth } from './analysis.js';
+import { parseMetric } from './metrics.js';
+
+export const RETENTION_HORIZONS = [3, 6, 12] as const;
+
+/**
+ * Length in months of the window in which a contributor counts as retained or still active.
+ */
+const ACTIVITY_WINDOW = 3;
+
+/**
+ * Metric files the cohort analysis reads; any of them may be missing.
+ */
+export interface CohortInputs {
+  contributors?: unknown;
+  new_contributors?: unknown;
+  new_contributors_detail?: unknown;
+  inactive_contributors?: unknown;
+  activity_details?: unknown;
+}
+
+export interface Cohort {
+  month: string;
+  newContributors: number;
+  /** Share of the cohort active around 3/6/12 months later; null when not observable yet. */
+  retention: Record<`m${typeof RETENTION_HORIZONS[number]}`, number | null>;
+}
+
+export interface ChurnPoint {
+  month: string;
+  activeContributors: number | null;
+  churned: number | null;
+  churnRate: number | null;
+  inactiveContributors: number | null;
+  /** inactive_contributors relative to active plus inactive contributors. */
+  inactiveRatio: number | null;
+}
+
+export interface CohortReport {
+  cohorts: Cohort[];
+  averageRetention: Cohort['retention'];
+  churn: ChurnPoint[];
+  summary: {
+    months: number;
+    totalNewContributors: number;
+    averageMonthlyNewContributors: number;
+    averageChurnRate: number | null;
+    identityData: boolean;
+  };
+  notes: string[];
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/**
+ * Reads a detail list as a month -> set of names map.
+ */
+function identities(data: unknown, metric: string): Map<string, Set<string>> {
+  const parsed = parseMetric(data, metric);
+  const result = new Map<string, Set<string>>();
+  if (parsed?.shape !== 'detail_list') return result;
+  Object.entries(parsed.periods).forEach(([period, items]) => {
+    if (/^\d{4}-\d{2}$/.test(period)) result.set(period, new Set(items.map(item => item.name.toLowerCase())));
+  });
+  return result;
+}
+
+function monthlyValues(data: unknown, metric: string): Map<string, number> {
+  if (data === undefined) return new Map();
+  return new Map(extractSeries(data, { metric }).points.map(point => [point.date, point.value]));
+}
+
+/**
+ * Builds cohort retention and churn from the available contributor metrics.
+ *
+ * @param inputs - Fetched metric files; missing ones are left undefined.
+ * @param months - Number of most recent months to report (the full history is used for lookups).
+ * @returns Cohorts, churn over time, averages and notes about data coverage.
+ */
+export function analyzeCohorts(inputs: CohortInputs, months: number): CohortReport {
+  const joined = identities(inputs.new_contributors_detail, 'new_contributors_detail');
+  const active = identities(inputs.activity_details, 'activity_details');
+  const contributors = monthlyValues(inputs.contributors, 'contributors');
+  const newCounts = monthlyValues(inputs.new_contributors, 'new_contributors');
+  const inactive = monthlyValues(inputs.inactive_contributors, 'inactive_contributors');
+  const notes: string[] = [];
+
+  const allMonths = [...new Set([...joined.keys(), ...active.keys(), ...contributors.keys(), ...newCounts.keys(), ...inactive.keys()])].sort();
+  const lastMonth = allMonths[allMonths.length - 1];
+  const lastActiveMonth = [...active.keys()].sort().pop();
+  const identityData = joined.size > 0 && active.size > 0;
+  if (!identityData) {
+    notes.push('Contributor identities (new_contributors_detail and activity_details) are unavailable; retention and churn need them and are reported as null');
+  }
+  if (active.size > 0) {
+    notes.push('Activity is taken from activity_details, which lists the most active developers per month; retention of occasional contributors may be understated');
+  }
+
+  const seenBetween = (names: Set<string>, from: string, to: string) => {
+    const seen = new Set<string>();
+    for (let month = from; month <= to; month = shiftMonth(month, 1)) {
+      active.get(month)?.forEach(name => { if (names.has(name)) seen.add(name); });
+    }
+    return seen;
+  };
+
+  const reported = allMonths.slice(-months);
+  const cohorts: Cohort[] = reported.map(month => {
+    const members = joined.get(month);
+    const size = members?.size ?? newCounts.get(month) ?? 0;
+    const retention = Object.fromEntries(RETENTION_HORIZONS.map(horizon => {
+      const start = shiftMonth(month, horizon);
+      const end = shiftMonth(start, ACTIVITY_WINDOW - 1);
+      if (!identityData || !members || members.size === 0 || !lastActiveMonth || end > lastActiveMonth) return [`m${horizon}`, null];
+      const retained = seenBetween(members, start, end);
+      return [`m${horizon}`, round(retained.size / members.size)];
+    })) as Cohort['retention'];
+    return { month, newContributors: size, retention };
+  });
+
+  const churn: ChurnPoint[] = reported.map(month => {
+    const current = active.get(month);
+    const windowEnd = shiftMonth(month, ACTIVITY_WINDOW);
+    let churned: number | null = null;
+    if (identityData && current && current.size > 0 && lastActiveMonth && windowEnd <= lastActiveMonth) {
+      churned = current.size - seenBetween(current, shiftMonth(month, 1), windowEnd).size;
+    }
+    const activeCount = contributors.get(month) ?? (current ? current.size : null);
+    const inactiveCount = inactive.get(month) ?? null;
+    return {
+      month,
+      activeContributors: activeCount,
+      churned,
+      churnRate: churned !== null && current ? round(churned / current.size) : null,
+      inactiveContributors: inactiveCount,
+      inactiveRatio: inactiveCount !== null && activeCount !== null && activeCount + inactiveCount > 0
+        ? round(inactiveCount / (activeCount + inactiveCount))
+        : null
+    };
+  });
+
+  // Averages weight each cohort by its size so that tiny cohorts do not dominate
+  const averageRetention = Object.fromEntries(RETENTION_HORIZONS.map(horizon => {
+    const key = `m${horizon}` as const;
+    const observed = cohorts.filter(cohort => cohort.retention[key] !== null && cohort.newContributors > 0);
+    const size = observed.reduce((sum, cohort) => sum + cohort.newContributors, 0);
+    return [key, size > 0 ? round(observed.reduce((sum, cohort) => sum + cohort.retention[key]! * cohort.newContributors, 0) / size) : null];
+  })) as Cohort['retention'];
+
+  const churnRates = churn.flatMap(point => point.churnRate !== null ? [point.churnRate] : []);
+  const totalNew = cohorts.reduce((sum, cohort) => sum + cohort.newContributors, 0);
+  if (lastMonth && lastActiveMonth && lastActiveMonth < lastMonth) {
+    notes.push(`activity_details ends at ${lastActiveMonth}; later cohorts cannot be followed yet`);
+  }
+
+  return {
+    cohorts,
+    averageRetention,
+    churn,
+    summary: {
+      months: reported.length,
+      totalNewContributors: totalNew,
+      averageMonthlyNewContributors: reported.length > 0 ? round(totalNew / reported.length) : 0,
+      averageChurnRate: churnRates.length > 0 ? round(churnRates.reduce((sum, rate) => sum + rate, 0) / churnRates.length) : null,
+      identityData
+    },
+    notes
+  };
+}
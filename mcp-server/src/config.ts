@@ -0,0 +1,61 @@
+/**
+ * @file config.ts
+ * @description
+ * Server-wide settings resolved from environment variables, falling back to the `config`
+ * block of package.json (`cache_ttl_default`, `batch_size_default`, `max_concurrent_requests`).
+ *
+ * npm exposes that block as `npm_package_config_*` variables when the server is started
+ * through `npm start`; when it is launched directly with `node dist/index.js` (as MCP clients
+ * do) the values are read from package.json next to the build output instead.
+ */
+
+
+import { readFileSync } from 'node:fs';
+
+type PackageConfigKey = 'cache_ttl_default' | 'batch_size_default' | 'max_concurrent_requests';
+
+function readPackageConfig(): Partial<Record<PackageConfigKey, number>> {
+  try {
+    const pkg = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf8'));
+    return pkg.config ?? {};
+  } catch {
+    return {};
+  }
+}
+
+const packageConfig = readPackageConfig();
+
+/**
+ * Resolves a numeric setting: explicit env var, then npm's `npm_package_config_*`, then package.json, then the default.
+ */
+function resolveNumber(envName: string, key: PackageConfigKey | undefined, fallback: number): number {
+  const candidates = [
+    process.env[envName],
+    key ? process.env[`npm_package_config_${key}`] : undefined,
+    key ? packageConfig[key] : undefined
+  ];
+  for (const candidate of candidates) {
+    const value = Number(candidate);
+    if (candidate !== undefined && candidate !== '' && Number.isFinite(value) && value >= 0) return value;
+  }
+  return fallback;
+}
+
+export const SERVER_CONFIG = {
+  /** Default cache TTL in seconds (CACHE_TTL_SECONDS). */
+  cacheTtlSeconds: resolveNumber('CACHE_TTL_SECONDS', 'cache_ttl_default', 300),
+  /** Number of requests processed together by the batch tool (BATCH_SIZE). */
+  batchSize: Math.max(1, resolveNumber('BATCH_SIZE', 'batch_size_default', 5)),
+  /** Upper bound of simultaneous upstream requests across all tools (MAX_CONCURRENT_REQUESTS). */
+  maxConcurrentRequests: Math.max(1, resolveNumber('MAX_CONCURRENT_REQUESTS', 'max_concurrent_requests', 100)),
+  /** Optional upstream requests-per-second budget; 0 disables it (REQUESTS_PER_SECOND). */
+  requestsPerSecond: resolveNumber('REQUESTS_PER_SECOND', undefined, 0),
+  /** Streamable HTTP sessions without requests for this long are closed (MCP_SESSION_IDLE_SECONDS). */
+  sessionIdleSeconds: Math.max(1, resolveNumber('MCP_SESSION_IDLE_SECONDS', undefined, 1800)),
+  /** Units each HTTP client regains per minute; 0 disables the per-client rate limit (CLIENT_RATE_LIMIT_PER_MINUTE). */
+  clientRateLimitPerMinute: resolveNumber('CLIENT_RATE_LIMIT_PER_MINUTE', undefined, 120),
+  /** Units an HTTP client can spend at once (CLIENT_RATE_LIMIT_BURST). */
+  clientRateLimitBurst: Math.max(1, resolveNumber('CLIENT_RATE_LIMIT_BURST', undefined, 60)),
+  /** Units an HTTP client may spend per UTC day; 0 disables the quota (CLIENT_DAILY_QUOTA). */
+  clientDailyQuota: resolveNumber('CLIENT_DAILY_QUOTA', undefined, 0)
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { correlateSeries } from './correlation.js';
+import { shiftMonth } from './analysis.js';
+
+const series = (label: string, values: number[], from = '2021-01') =>
+  ({ label, points: values.map((value, i) => ({ date: shiftMonth(from, i), value })) });
+
+// Irregular but deterministic month-over-month changes
+const steps = [3, -1, 4, 1, -5, 9, 2, -6, 5, 3, -5, 8, 9, -7, 9, 3, -2, 3, 8, -4, 6, 2, -6, 4];
+const walk = (offset: number) => steps.reduce<number[]>((values, step) => [...values, values[values.length - 1]! + step], [100 + offset]);
+
+describe('correlateSeries', () => {
+  it('reports perfectly correlated and anti-correlated series', () => {
+    const base = walk(0);
+    const [same, opposite] = correlateSeries([series('a', base), series('b', base.map(v => v * 2 + 1)), series('c', base.map(v => 500 - v))]);
+    expect(same).toMatchObject({ a: 'a', b: 'b', pearson: 1, spearman: 1, strength: 'strong', bestLag: { months: 0, pearson: 1 } });
+    expect(opposite).toMatchObject({ a: 'a', b: 'c', pearson: -1, spearman: -1, strength: 'strong' });
+    expect(opposite!.interpretation).toMatch(/opposite directions/);
+  });
+
+  it('finds the lag at which one series leads the other', () => {
+    const leader = walk(0);
+    // The follower repeats the leader's values two months later
+    const follower = series('follower', leader.slice(0, -2), '2021-03');
+    const [pair] = correlateSeries([series('leader', leader), follower], { maxLag: 4 });
+    expect(pair!.bestLag).toMatchObject({ months: 2, pearson: 1 });
+    expect(pair!.interpretation).toMatch(/^leader leads follower by 2 months/);
+
+    const [reversed] = correlateSeries([follower, series('leader', leader)], { maxLag: 4 });
+    expect(reversed!.bestLag?.months).toBe(-2);
+  });
+
+  it('aligns series on common months only', () => {
+    const [pair] = correlateSeries([series('a', walk(0), '2021-01'), series('b', walk(5), '2021-07')]);
+    expect(pair!.overlap).toEqual({ months: 19, start: '2021-07', end: '2023-01' });
+  });
+
+  it('gives ties in Spearman ranks their average position', () => {
+    const [pair] = correlateSeries([series('a', [1, 2, 2, 3, 4, 5]), series('b', [10, 20, 20, 30, 40, 50])]);
+    expect(pair!.spearman).toBe(1);
+  });
+
+  it('declines to correlate short overlaps or constant series', () => {
+    const [short, constant] = correlateSeries([series('a', [1, 2, 3, 4]), series('b', [2, 4, 6, 8]), series('c', [5, 5, 5, 5])], { minOverlap: 6 });
+    expect(short).toMatchObject({ pearson: null, spearman: null, strength: null, bestLag: null });
+    expect(short!.interpretation).toMatch(/at least 6 common months/);
+    expect(constant!.pearson).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * @file correlation.ts
+ * @description
+ * Cross-series correlation and lag analysis for OpenDigger monthly metrics.
+ *
+ * Series are aligned on their common months before computing Pearson and Spearman coefficients.
+ * Because most metrics trend upwards together, the best-fit lag is searched on month-over-month
+ * changes rather than raw levels; otherwise the shared trend makes lag 0 win almost every time.
+ */
+
+
+import { shiftMonth } from './analysis.js';
+
+/**
+ * A labelled monthly series taking part in the correlation.
+ */
+export interface LabeledSeries {
+  label: string;
+  points: Array<{date: string; value: number}>;
+}
+
+export type CorrelationStrength = 'strong' | 'moderate' | 'weak' | 'negligible';
+
+/**
+ * Correlation between two series. Positive lags mean `a` leads `b`.
+ */
+export interface PairCorrelation {
+  a: string;
+  b: string;
+  overlap: { months: number; start: string | null; end: string | null };
+  pearson: number | null;
+  spearman: number | null;
+  changesPearson: number | null;
+  strength: CorrelationStrength | null;
+  bestLag: { months: number; pearson: number; overlap: number } | null;
+  interpretation: string;
+}
+
+export interface CorrelationOptions {
+  /** Largest lead/lag in months to test in each direction (default: 6). */
+  maxLag?: number | undefined;
+  /** Minimum number of aligned months required for a coefficient (default: 6). */
+  minOverlap?: number | undefined;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2) return null;
+  const meanX = xs.reduce((sum, v) => sum + v, 0) / n;
+  const meanY = ys.reduce((sum, v) => sum + v, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i]! - meanX;
+    const dy = ys[i]! - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Ranks values, giving tied values the average of their positions.
+ */
+function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1]!.value === order[i]!.value) j++;
+    for (let k = i; k <= j; k++) ranks[order[k]!.index] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(rank(xs), rank(ys));
+}
+
+function classify(coefficient: number | null): CorrelationStrength | null {
+  if (coefficient === null) return null;
+  const magnitude = Math.abs(coefficient);
+  if (magnitude >= 0.7) return 'strong';
+  if (magnitude >= 0.4) return 'moderate';
+  if (magnitude >= 0.2) return 'weak';
+  return 'negligible';
+}
+
+const round = (value: number | null) => value === null ? null : Number(value.toFixed(4));
+
+/**
+ * Month-over-month changes keyed by the later month.
+ */
+function changes(series: Map<string, number>): Map<string, number> {
+  const result = new Map<string, number>();
+  for (const [month, value] of series) {
+    const previous = series.get(shiftMonth(month, -1));
+    if (previous !== undefined) result.set(month, value - previous);
+  }
+  return result;
+}
+
+/**
+ * Pairs `a[t]` with `b[t + lag]` over the months both series cover.
+ */
+function align(a: Map<string, number>, b: Map<string, number>, lag: number): { xs: number[]; ys: number[]; months: string[] } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const months: string[] = [];
+  for (const [month, value] of a) {
+    const other = b.get(shiftMonth(month, lag));
+    if (other === undefined) continue;
+    xs.push(value);
+    ys.push(other);
+    months.push(month);
+  }
+  return { xs, ys, months };
+}
+
+function describe(a: string, b: string, strength: CorrelationStrength | null, lag: PairCorrelation['bestLag'], minOverlap: number): string {
+  if (strength === null) return `Not enough overlapping, non-constant data (need at least ${minOverlap} common months)`;
+  if (!lag || Math.abs(lag.pearson) < 0.3) return `${a} and ${b} show ${strength} correlation in levels and no clear lead/lag relationship in monthly changes`;
+  const relation = lag.pearson > 0 ? 'move together' : 'move in opposite directions';
+  if (lag.months === 0) return `${a} and ${b} ${relation} in the same month (${strength} correlation in levels)`;
+  const [leader, follower] = lag.months > 0 ? [a, b] : [b, a];
+  const months = Math.abs(lag.months);
+  return `${leader} leads ${follower} by ${months} month${months === 1 ? '' : 's'}; changes ${relation} (${strength} correlation in levels)`;
+}
+
+/**
+ * Correlates one pair of series.
+ */
+function correlatePair(a: LabeledSeries, b: LabeledSeries, maxLag: number, minOverlap: number): PairCorrelation {
+  const seriesA = new Map(a.points.map(p => [p.date.substring(0, 7), p.value]));
+  const seriesB = new Map(b.points.map(p => [p.date.substring(0, 7), p.value]));
+  const { xs, ys, months } = align(seriesA, seriesB, 0);
+  const enough = xs.length >= minOverlap;
+
+  const levelPearson = enough ? pearson(xs, ys) : null;
+  const changesA = changes(seriesA);
+  const changesB = changes(seriesB);
+  const sameMonth = align(changesA, changesB, 0);
+
+  let bestLag: PairCorrelation['bestLag'] = null;
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const shifted = align(changesA, changesB, lag);
+    if (shifted.xs.length < minOverlap) continue;
+    const coefficient = pearson(shifted.xs, shifted.ys);
+    if (coefficient === null) continue;
+    // Prefer the shorter lag on ties so noise does not push the answer outwards
+    if (!bestLag || Math.abs(coefficient) > Math.abs(bestLag.pearson) + 1e-9) {
+      bestLag = { months: lag, pearson: round(coefficient)!, overlap: shifted.xs.length };
+    }
+  }
+
+  const strength = classify(levelPearson);
+  return {
+    a: a.label,
+    b: b.label,
+    overlap: { months: xs.length, start: months[0] ?? null, end: months[months.length - 1] ?? null },
+    pearson: round(levelPearson),
+    spearman: enough ? round(spearman(xs, ys)) : null,
+    changesPearson: sameMonth.xs.length >= minOverlap ? round(pearson(sameMonth.xs, sameMonth.ys)) : null,
+    strength,
+    bestLag,
+    interpretation: describe(a.label, b.label, strength, bestLag, minOverlap)
+  };
+}
+
+/**
+ * Computes pairwise correlations and best-fit lags between two or more monthly series.
+ *
+ * @param series - Labelled monthly series (as produced by `extractSeries`).
+ * @param options - Lag range and minimum overlap.
+ * @returns One entry per pair of series, in input order.
+ */
+export function correlateSeries(series: LabeledSeries[], options: CorrelationOptions = {}): PairCorrelation[] {
+  const maxLag = options.maxLag ?? 6;
+  const minOverlap = Math.max(3, options.minOverlap ?? 6);
+  const pairs: PairCorrelation[] = [];
+  for (let i = 0; i < series.length; i++) {
+    for (let j = i + 1; j < series.length; j++) {
+      pairs.push(correlatePair(series[i]!, series[j]!, maxLag, minOverlap));
+    }
+  }
+  return pairs;
+}
@@ -0,0 +1,132 @@
+import { mkdtemp, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DirectoryDataSource, TarballDataSource, createDataSource } from './datasource.js';
+
+const BLOCK = 512;
+
+/**
+ * Builds one tar header block. The reader ignores checksums, so none is computed.
+ */
+function header(name: string, size: number, type: string, prefix = ''): Buffer {
+  const block = Buffer.alloc(BLOCK);
+  block.write(name, 0, 100, 'utf8');
+  block.write(size.toString(8).padStart(11, '0'), 124, 12, 'utf8');
+  block.write((1_700_000_000).toString(8).padStart(11, '0'), 136, 12, 'utf8');
+  block.write(type, 156, 1, 'utf8');
+  block.write(prefix, 345, 155, 'utf8');
+  return block;
+}
+
+function padded(body: Buffer): Buffer {
+  return Buffer.concat([body, Buffer.alloc(Math.ceil(body.length / BLOCK) * BLOCK - body.length)]);
+}
+
+function tarEntry(name: string, content: string, type = '0', prefix = ''): Buffer {
+  const body = Buffer.from(content, 'utf8');
+  return Buffer.concat([header(name, body.length, type, prefix), padded(body)]);
+}
+
+function tarball(entries: Buffer[]): Buffer {
+  return Buffer.concat([...entries, Buffer.alloc(BLOCK * 2)]);
+}
+
+const longName = `export/github/${'a'.repeat(60)}/${'b'.repeat(60)}/openrank.json`;
+const paxName = `export/github/${'c'.repeat(60)}/${'d'.repeat(60)}/stars.json`;
+const paxRecord = `path=${paxName}\n`;
+// A PAX record starts with its own length, including the length digits and the separating space
+const paxBody = `${paxRecord.length + 4} ${paxRecord}`;
+
+describe('TarballDataSource', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    dir = await mkdtemp(path.join(tmpdir(), 'datasource-test-'));
+    const archive = tarball([
+      tarEntry('export/github/', '', '5'),
+      tarEntry('./export/github/owner/repo/openrank.json', '{"2024-01":1.5}'),
+      tarEntry('repo/activity.json', '{"2024-01":7}', '0', 'export/github/owner'),
+      tarEntry('././@LongLink', longName, 'L'),
+      tarEntry('truncated', '{"2024-01":2}'),
+      tarEntry('PaxHeader', paxBody, 'x'),
+      tarEntry('truncated', '{"2024-01":3}'),
+      tarEntry('export/github/owner/repo/broken.json', '{not json')
+    ]);
+    await writeFile(path.join(dir, 'snapshot.tar'), archive);
+    await writeFile(path.join(dir, 'snapshot.tgz'), gzipSync(archive));
+  });
+
+  afterAll(async () => {
+    // Gzipped archives are inflated next to other snapshots, named after the archive's mtime
+    const { mtimeMs } = await stat(path.join(dir, 'snapshot.tgz'));
+    await rm(path.join(tmpdir(), 'open-digger-mcp', `snapshot-${mtimeMs.toFixed(0)}.tar`), { force: true });
+    await rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('indexes plain, prefixed, GNU long-name and PAX entries', async () => {
+    const source = new TarballDataSource(path.join(dir, 'snapshot.tar'));
+    expect((await source.load('github/owner/repo/openrank.json')).body).toEqual({ '2024-01': 1.5 });
+    expect((await source.load('github/owner/repo/activity.json')).body).toEqual({ '2024-01': 7 });
+    expect((await source.load(longName)).body).toEqual({ '2024-01': 2 });
+    expect((await source.load(paxName)).body).toEqual({ '2024-01': 3 });
+  });
+
+  it('resolves paths with and without the single top-level folder', async () => {
+    const source = new TarballDataSource(path.join(dir, 'snapshot.tar'));
+    expect((await source.load('export/github/owner/repo/openrank.json')).status).toBe(200);
+    expect((await source.load('/github/owner/repo/openrank.json')).status).toBe(200);
+  });
+
+  it('answers missing entries with 404 and unchanged ones with 304', async () => {
+    const source = new TarballDataSource(path.join(dir, 'snapshot.tar'));
+    expect(await source.load('github/owner/repo/stars.json')).toMatchObject({ ok: false, status: 404 });
+    const first = await source.load('github/owner/repo/openrank.json');
+    expect(await source.load('github/owner/repo/openrank.json', { lastModified: first.lastModified }))
+      .toMatchObject({ ok: true, status: 304, body: undefined });
+  });
+
+  it('reports invalid JSON with the entry location', async () => {
+    const source = new TarballDataSource(path.join(dir, 'snapshot.tar'));
+    await expect(source.load('github/owner/repo/broken.json')).rejects.toThrow(/Invalid JSON in .*snapshot\.tar#github\/owner\/repo\/broken\.json/);
+  });
+
+  it('reads gzipped archives', async () => {
+    const source = new TarballDataSource(path.join(dir, 'snapshot.tgz'));
+    expect((await source.load('github/owner/repo/activity.json')).body).toEqual({ '2024-01': 7 });
+  });
+});
+
+describe('metric path normalization', () => {
+  const source = new DirectoryDataSource('/data');
+
+  it('strips leading slashes and ./ segments', () => {
+    expect(source.resolve('/github/owner/repo/openrank.json')).toBe(path.join('/data', 'github', 'owner', 'repo', 'openrank.json'));
+    expect(source.resolve('./github//owner/./repo/openrank.json')).toBe(path.join('/data', 'github', 'owner', 'repo', 'openrank.json'));
+    expect(source.resolve('github\\owner\\repo\\openrank.json')).toBe(path.join('/data', 'github', 'owner', 'repo', 'openrank.json'));
+  });
+
+  it('keeps .. segments that stay inside the data root', () => {
+    expect(source.resolve('github/owner/../other/openrank.json')).toBe(path.join('/data', 'github', 'other', 'openrank.json'));
+  });
+
+  it('rejects paths escaping the data root', () => {
+    expect(() => source.resolve('../etc/passwd')).toThrow('Invalid metric path');
+    expect(() => source.resolve('github/../../etc/passwd')).toThrow('Invalid metric path');
+    expect(() => source.resolve('..')).toThrow('Invalid metric path');
+    expect(() => new TarballDataSource('/data/snapshot.tar').resolve('a/../../b')).toThrow('Invalid metric path');
+  });
+});
+
+describe('createDataSource', () => {
+  it('picks the source type from the spec', () => {
+    expect(createDataSource('https://mirror.example.com/data').location).toBe('https://mirror.example.com/data/');
+    expect(createDataSource('https://mirror.example.com/data').type).toBe('http');
+    expect(createDataSource('/srv/opendigger.tar.gz').type).toBe('tarball');
+    expect(createDataSource('file:///srv/opendigger').type).toBe('directory');
+    expect(createDataSource('file:///srv/opendigger').location).toBe(path.resolve('/srv/opendigger'));
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * @file datasource.ts
+ * @description
+ * Pluggable data source layer for OpenDigger metric files.
+ * Every tool addresses metrics by a relative path such as `github/owner/repo/openrank.json`;
+ * this module decides where that path is actually read from.
+ *
+ * Supported sources:
+ * - HTTP(S) mirror (default: https://oss.open-digger.cn/)
+ * - Local directory holding the same `platform/owner/repo/metric.json` tree
+ * - Tarball snapshot (`.tar`, `.tar.gz`, `.tgz`) of an OpenDigger export
+ *
+ * Configuration:
+ * - OPENDIGGER_DATA_SOURCE: URL, directory path, `file://` URL or tarball path
+ * - OPENDIGGER_BASE_URL: HTTP base URL, used when OPENDIGGER_DATA_SOURCE is not set
+ */
+
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { open, readFile, stat, mkdir, rename } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { fileURLToPath } from 'node:url';
+import { createGunzip } from 'node:zlib';
+
+export const DEFAULT_BASE_URL = 'https://oss.open-digger.cn/';
+
+/**
+ * Normalized response returned by every data source, modelled after the parts of
+ * the fetch `Response` that the cache layer relies on.
+ */
+export interface SourceResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  body: unknown;
+  etag?: string | undefined;
+  lastModified?: string | undefined;
+  retryAfter?: string | undefined;
+}
+
+/**
+ * Validators from a previously cached response (when they still match, sources
+ * answer with status 304 and no body) and an optional abort signal.
+ */
+export interface SourceRequestOptions {
+  etag?: string | undefined;
+  lastModified?: string | undefined;
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * A location that serves the OpenDigger `platform/owner/repo/metric.json` tree.
+ */
+export interface DataSource {
+  readonly type: 'http' | 'directory' | 'tarball';
+  readonly location: string;
+  /** Returns the fully qualified location of a metric path (used as cache key and in logs). */
+  resolve(metricPath: string): string;
+  /** Loads a metric path; missing files resolve with `ok: false` and status 404 rather than throwing. */
+  load(metricPath: string, options?: SourceRequestOptions): Promise<SourceResponse>;
+}
+
+const notFound = (metricPath: string): SourceResponse => ({
+  ok: false,
+  status: 404,
+  statusText: `Not Found: ${metricPath}`,
+  body: undefined
+});
+
+const notModified = (lastModified: string | undefined): SourceResponse => ({
+  ok: true,
+  status: 304,
+  statusText: 'Not Modified',
+  body: undefined,
+  lastModified
+});
+
+/**
+ * Checks a local file's modification time against a cached Last-Modified validator (second precision).
+ */
+function isUnmodified(mtimeMs: number, options: SourceRequestOptions | undefined): boolean {
+  if (!options?.lastModified) return false;
+  const since = Date.parse(options.lastModified);
+  return !Number.isNaN(since) && Math.floor(mtimeMs / 1000) * 1000 <= since;
+}
+
+/**
+ * Normalizes a metric path and rejects anything that would escape the data root.
+ */
+function normalizeMetricPath(metricPath: string): string {
+  const normalized = path.posix.normalize(metricPath.replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '');
+  if (normalized === '..' || normalized.startsWith('../')) {
+    throw new Error(`Invalid metric path: ${metricPath}`);
+  }
+  return normalized;
+}
+
+function parseJsonBody(raw: string, location: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`Invalid JSON in ${location}`);
+  }
+}
+
+async function parseResponseBody(response: Response): Promise<unknown> {
+  const contentType = response.headers.get("content-type");
+  if (contentType?.includes("application/json")) {
+    return response.json();
+  }
+  return response.text();
+}
+
+/**
+ * Reads metric files from an HTTP(S) mirror of oss.open-digger.cn.
+ */
+export class HttpDataSource implements DataSource {
+  readonly type = 'http';
+  readonly location: string;
+
+  constructor(baseUrl: string) {
+    this.location = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  }
+
+  resolve(metricPath: string): string {
+    return `${this.location}${normalizeMetricPath(metricPath)}`;
+  }
+
+  async load(metricPath: string, options?: SourceRequestOptions): Promise<SourceResponse> {
+    const headers: Record<string, string> = {};
+    if (options?.etag) headers['If-None-Match'] = options.etag;
+    if (options?.lastModified) headers['If-Modified-Since'] = options.lastModified;
+
+    const response = await fetch(this.resolve(metricPath), { headers, signal: options?.signal ?? null });
+    const body = response.status === 304 ? undefined : await parseResponseBody(response);
+    return {
+      ok: response.ok || response.status === 304,
+      status: response.status,
+      statusText: response.statusText,
+      body,
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+      retryAfter: response.headers.get('retry-after') ?? undefined
+    };
+  }
+}
+
+/**
+ * Reads metric files from a local directory laid out like the OpenDigger OSS bucket.
+ */
+export class DirectoryDataSource implements DataSource {
+  readonly type = 'directory';
+  readonly location: string;
+
+  constructor(root: string) {
+    this.location = path.resolve(root);
+  }
+
+  resolve(metricPath: string): string {
+    return path.join(this.location, ...normalizeMetricPath(metricPath).split('/'));
+  }
+
+  async load(metricPath: string, options?: SourceRequestOptions): Promise<SourceResponse> {
+    const filePath = this.resolve(metricPath);
+    try {
+      const info = await stat(filePath);
+      if (isUnmodified(info.mtimeMs, options)) return notModified(info.mtime.toUTCString());
+      const raw = await readFile(filePath, 'utf8');
+      return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        body: parseJsonBody(raw, filePath),
+        lastModified: info.mtime.toUTCString()
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || (error as NodeJS.ErrnoException).code === 'ENOTDIR') {
+        return notFound(metricPath);
+      }
+      throw error;
+    }
+  }
+}
+
+interface TarEntry {
+  offset: number;
+  size: number;
+  mtime: number;
+}
+
+const TAR_BLOCK_SIZE = 512;
+
+function readTarString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+function readTarNumber(block: Buffer, start: number, length: number): number {
+  // GNU tar stores sizes above 8GB in base-256 with the high bit set
+  if ((block[start]! & 0x80) !== 0) {
+    let value = 0;
+    for (let i = start + 1; i < start + length; i++) value = value * 256 + block[i]!;
+    return value;
+  }
+  const text = readTarString(block, start, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+/**
+ * Extracts the `path` record from a PAX extended header body.
+ */
+function readPaxPath(body: Buffer): string | undefined {
+  const records = body.toString('utf8').split('\n');
+  for (const record of records) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Reads metric files from a tarball snapshot of an OpenDigger export.
+ *
+ * The archive is indexed once (headers only) and entries are then read on demand
+ * with positional reads, so large snapshots are never held in memory. Gzipped
+ * archives are inflated once into the system temp directory before indexing.
+ */
+export class TarballDataSource implements DataSource {
+  readonly type = 'tarball';
+  readonly location: string;
+  private index: Promise<{ file: string; entries: Map<string, TarEntry>; root?: string | undefined }> | undefined;
+
+  constructor(archivePath: string) {
+    this.location = path.resolve(archivePath);
+  }
+
+  resolve(metricPath: string): string {
+    return `${this.location}#${normalizeMetricPath(metricPath)}`;
+  }
+
+  async load(metricPath: string, options?: SourceRequestOptions): Promise<SourceResponse> {
+    const { file, entries, root } = await this.getIndex();
+    const normalized = normalizeMetricPath(metricPath);
+    const entry = entries.get(normalized) ?? (root ? entries.get(`${root}/${normalized}`) : undefined);
+    if (!entry) return notFound(metricPath);
+    if (isUnmodified(entry.mtime * 1000, options)) return notModified(new Date(entry.mtime * 1000).toUTCString());
+
+    const handle = await open(file, 'r');
+    try {
+      const buffer = Buffer.alloc(entry.size);
+      await handle.read(buffer, 0, entry.size, entry.offset);
+      return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        body: parseJsonBody(buffer.toString('utf8'), this.resolve(metricPath)),
+        lastModified: new Date(entry.mtime * 1000).toUTCString()
+      };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private getIndex() {
+    if (!this.index) {
+      this.index = this.buildIndex().catch((error) => {
+        this.index = undefined;
+        throw error;
+      });
+    }
+    return this.index;
+  }
+
+  private async inflate(): Promise<string> {
+    if (!/\.(tgz|tar\.gz)$/i.test(this.location)) return this.location;
+
+    const info = await stat(this.location);
+    const dir = path.join(tmpdir(), 'open-digger-mcp');
+    await mkdir(dir, { recursive: true });
+    const target = path.join(dir, `${path.basename(this.location).replace(/\.(tgz|tar\.gz)$/i, '')}-${info.mtimeMs.toFixed(0)}.tar`);
+    const existing = await stat(target).catch(() => undefined);
+    if (!existing) {
+      console.error(`Inflating ${this.location} to ${target}...`);
+      const partial = `${target}.${process.pid}.partial`;
+      await pipeline(createReadStream(this.location), createGunzip(), createWriteStream(partial));
+      await rename(partial, target);
+    }
+    return target;
+  }
+
+  private async buildIndex() {
+    const file = await this.inflate();
+    const entries = new Map<string, TarEntry>();
+    const roots = new Set<string>();
+    const handle = await open(file, 'r');
+    const { size: archiveSize } = await handle.stat();
+
+    try {
+      const header = Buffer.alloc(TAR_BLOCK_SIZE);
+      let position = 0;
+      let pendingName: string | undefined;
+
+      while (position + TAR_BLOCK_SIZE <= archiveSize) {
+        await handle.read(header, 0, TAR_BLOCK_SIZE, position);
+        if (header.every(byte => byte === 0)) break; // End-of-archive marker
+
+        const size = readTarNumber(header, 124, 12);
+        const type = String.fromCharCode(header[156] || 0x30);
+        const dataOffset = position + TAR_BLOCK_SIZE;
+        position = dataOffset + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+        if (type === 'L' || type === 'x') {
+          // GNU long name or PAX header describing the next entry
+          const body = Buffer.alloc(size);
+          await handle.read(body, 0, size, dataOffset);
+          pendingName = type === 'L' ? readTarString(body, 0, size) : readPaxPath(body);
+          continue;
+        }
+
+        const prefix = readTarString(header, 345, 155);
+        const rawName = pendingName ?? (prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100));
+        pendingName = undefined;
+        if (type !== '0' && type !== '\0') continue; // Regular files only
+
+        const name = rawName.replace(/^(\.\/)+/, '');
+        entries.set(name, { offset: dataOffset, size, mtime: readTarNumber(header, 136, 12) });
+        roots.add(name.split('/')[0] ?? '');
+      }
+    } finally {
+      await handle.close();
+    }
+
+    // Exports are often wrapped in a single top-level folder; allow lookups without it
+    const root = roots.size === 1 ? [...roots][0] : undefined;
+    console.error(`Indexed ${entries.size} entries from ${this.location}`);
+    return { file, entries, root };
+  }
+}
+
+/**
+ * Creates a data source from a spec: an HTTP(S) URL, a `file://` URL, a directory or a tarball path.
+ */
+export function createDataSource(spec: string): DataSource {
+  if (/^https?:\/\//i.test(spec)) {
+    return new HttpDataSource(spec);
+  }
+  const localPath = spec.startsWith('file://') ? fileURLToPath(spec) : spec;
+  if (/\.(tar|tgz|tar\.gz)$/i.test(localPath)) {
+    return new TarballDataSource(localPath);
+  }
+  return new DirectoryDataSource(localPath);
+}
+
+let activeDataSource: DataSource | undefined;
+
+/**
+ * Returns the configured data source, creating it from the environment on first use.
+ */
+export function getDataSource(): DataSource {
+  if (!activeDataSource) {
+    activeDataSource = createDataSource(
+      process.env.OPENDIGGER_DATA_SOURCE || process.env.OPENDIGGER_BASE_URL || DEFAULT_BASE_URL
+    );
+  }
+  return activeDataSource;
+}
+
+/**
+ * Replaces the active data source (e.g. to point a running server at a different mirror).
+ */
+export function setDataSource(source: DataSource): void {
+  activeDataSource = source;
+}
@@ -0,0 +1,179 @@
+/**
+ * @file developers.ts
+ * @description
+ * Developer (User entity) comparison and profiles.
+ *
+ * OpenDigger publishes only a few metrics per developer (see `USER_METRICS`): the `openrank` and
+ * `activity` series, and the `developer_network` / `repo_network` graphs of their closest
+ * collaborators and repositories. Comparisons rank developers by average rank across metrics,
+ * since openrank and activity are on different scales.
+ */
+
+
+import { extractSeries, processTrendData } from './analysis.js';
+import { parseMetric, type UserMetric } from './metrics.js';
+import { analyzeNetwork } from './network.js';
+
+/**
+ * Metric files fetched for one developer; failed or unpublished metrics are left out.
+ */
+export interface DeveloperData {
+  login: string;
+  metrics: Record<string, unknown>;
+}
+
+export interface DeveloperTrend {
+  direction: 'increasing' | 'decreasing' | 'stable' | 'volatile';
+  /** Last minus first value of the window. */
+  totalGrowth: number;
+  /** Growth relative to the first value of the window; null when it is 0. */
+  growthPercent: number | null;
+  momentum: 'accelerating' | 'decelerating' | 'stable' | 'insufficient_data';
+  window: { start?: string | undefined; end?: string | undefined };
+  average: number;
+  peak: number;
+}
+
+const round = (value: number) => Number(value.toFixed(2));
+
+function trendOf(data: unknown, metric: string, timeRange: string): DeveloperTrend | null {
+  const analysis = processTrendData(data, timeRange, { metric });
+  if (analysis.dataPoints === 0) return null;
+  return {
+    direction: analysis.trend.direction,
+    totalGrowth: round(analysis.trend.totalGrowth),
+    growthPercent: analysis.values.first > 0 ? round((analysis.trend.totalGrowth / analysis.values.first) * 100) : null,
+    momentum: analysis.trend.momentum,
+    window: { start: analysis.window.start, end: analysis.window.end },
+    average: round(analysis.values.average),
+    peak: round(analysis.values.peak)
+  };
+}
+
+function latestOf(data: unknown, metric: string) {
+  const { points } = extractSeries(data, { metric });
+  return points.length > 0 ? points[points.length - 1]! : undefined;
+}
+
+/**
+ * Ranks developers on each metric by their latest value, with each developer's trend over
+ * `timeRange`.
+ *
+ * @param developers - Developers with their fetched metric files.
+ * @param metrics - Series metrics to compare (`openrank`, `activity`).
+ * @param timeRange - Trend window ending at the latest data point ('6m', '1y', '2y', '3y').
+ * @returns Per-metric rankings, an overall ranking by average rank, trends, and insights.
+ */
+export function compareDevelopers(developers: DeveloperData[], metrics: string[], timeRange: string) {
+  const missing: Array<{ login: string; metric: string }> = [];
+  const trends: Record<string, Record<string, DeveloperTrend | null>> = Object.fromEntries(developers.map(developer => [developer.login, {}]));
+
+  const perMetric = Object.fromEntries(metrics.map(metric => {
+    const rows = developers.flatMap(developer => {
+      const data = developer.metrics[metric];
+      const latest = data !== undefined ? latestOf(data, metric) : undefined;
+      if (!latest) {
+        missing.push({ login: developer.login, metric });
+        return [];
+      }
+      const trend = trendOf(data, metric, timeRange);
+      trends[developer.login]![metric] = trend;
+      return [{ login: developer.login, value: round(latest.value), period: latest.date, growth: trend?.growthPercent ?? null }];
+    });
+
+    const rankings = [...rows].sort((a, b) => b.value - a.value).map((row, index) => ({ ...row, rank: index + 1 }));
+    const values = rows.map(row => row.value);
+    const fastest = rows.filter(row => row.growth !== null).sort((a, b) => b.growth! - a.growth!)[0];
+    return [metric, {
+      rankings,
+      leader: rankings[0]?.login ?? null,
+      average: values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null,
+      fastestGrowing: fastest ? { login: fastest.login, growthPercent: fastest.growth } : null
+    }];
+  }));
+
+  // Developers missing a metric are ranked last on it, so that gaps do not improve the average
+  const overall = developers.map(developer => {
+    const ranks = metrics.map(metric => perMetric[metric]!.rankings.find(row => row.login === developer.login)?.rank ?? developers.length);
+    return { login: developer.login, averageRank: round(ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length) };
+  })
+    .sort((a, b) => a.averageRank - b.averageRank)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+  const insights: string[] = [];
+  if (overall[0]) insights.push(`${overall[0].login} ranks highest overall (average rank ${overall[0].averageRank} across ${metrics.join(', ')})`);
+  metrics.forEach(metric => {
+    const entry = perMetric[metric]!;
+    if (entry.leader) insights.push(`${entry.leader} leads in ${metric} with ${entry.rankings[0]!.value} in ${entry.rankings[0]!.period}`);
+    if (entry.fastestGrowing && entry.fastestGrowing.growthPercent! > 0) {
+      insights.push(`${entry.fastestGrowing.login} grew ${metric} the most (+${entry.fastestGrowing.growthPercent}% over ${timeRange})`);
+    }
+  });
+  const declining = Object.entries(trends).flatMap(([login, byMetric]) =>
+    Object.entries(byMetric).filter(([, trend]) => trend?.direction === 'decreasing').map(([metric]) => `${login} (${metric})`));
+  if (declining.length > 0) insights.push(`Declining over ${timeRange}: ${declining.join(', ')}`);
+
+  return { metrics: perMetric, overall, trends, missing, insights };
+}
+
+/**
+ * Part of a developer profile built from each metric, which stays empty when the metric is not
+ * published for the developer.
+ */
+export const PROFILE_SECTIONS: Record<UserMetric, string> = {
+  openrank: 'series.openrank',
+  activity: 'series.activity',
+  developer_network: 'collaborators',
+  repo_network: 'repositories'
+};
+
+/**
+ * Assembles everything OpenDigger publishes about a developer into one profile.
+ *
+ * @param login - Developer login.
+ * @param data - Fetched metric files, keyed by metric name; unpublished metrics are absent.
+ * @param timeRange - Trend window ending at the latest data point.
+ * @param limit - Number of collaborators and repositories listed.
+ */
+export function buildDeveloperProfile(login: string, data: Record<string, unknown>, timeRange: string, limit: number) {
+  const series = Object.fromEntries((['openrank', 'activity'] as const).flatMap(metric => {
+    if (data[metric] === undefined) return [];
+    const { points } = extractSeries(data[metric], { metric });
+    if (points.length === 0) return [];
+    const active = points.filter(point => point.value > 0);
+    const peak = points.reduce((best, point) => (point.value > best.value ? point : best), points[0]!);
+    const lastYear = points.slice(-12);
+    return [[metric, {
+      latest: { period: points[points.length - 1]!.date, value: round(points[points.length - 1]!.value) },
+      peak: { period: peak.date, value: round(peak.value) },
+      last12MonthsAverage: round(lastYear.reduce((sum, point) => sum + point.value, 0) / lastYear.length),
+      firstActive: active[0]?.date ?? null,
+      activeMonths: active.length,
+      trend: trendOf(data[metric], metric, timeRange)
+    }]];
+  }));
+
+  const collaboratorGraph = parseMetric(data.developer_network, 'developer_network');
+  const collaborators = collaboratorGraph?.shape === 'graph' && collaboratorGraph.nodes.length > 0
+    ? analyzeNetwork(collaboratorGraph, login, limit).topNeighbors
+    : null;
+
+  const repositoryGraph = parseMetric(data.repo_network, 'repo_network');
+  const repositories = repositoryGraph?.shape === 'graph' && repositoryGraph.nodes.length > 0
+    ? [...repositoryGraph.nodes].sort((a, b) => b.value - a.value).slice(0, limit).map(node => ({ repository: node.id, value: round(node.value) }))
+    : null;
+
+  const highlights: string[] = [];
+  const openrank = series.openrank;
+  const activity = series.activity;
+  if (openrank) highlights.push(`OpenRank ${openrank.latest.value} in ${openrank.latest.period} (peak ${openrank.peak.value} in ${openrank.peak.period})`);
+  if (activity?.trend) {
+    const change = activity.trend.growthPercent !== null ? ` (${activity.trend.growthPercent >= 0 ? '+' : ''}${activity.trend.growthPercent}%)` : '';
+    highlights.push(`Activity is ${activity.trend.direction} over ${timeRange}${change}`);
+  }
+  if (activity) highlights.push(`Active in ${activity.activeMonths} months since ${activity.firstActive ?? 'n/a'}`);
+  if (collaborators?.[0]) highlights.push(`Closest collaborator: ${collaborators[0].id}`);
+  if (repositories?.[0]) highlights.push(`Most involved repository: ${repositories[0].repository}`);
+
+  return { series, collaborators, repositories, highlights };
+}
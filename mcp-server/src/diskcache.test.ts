@@ -0,0 +1,60 @@
+import { createHash } from 'node:crypto';
+import { mkdir, mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DiskCacheStore, type StoredCacheEntry } from './diskcache.js';
+
+const entry = (key: string, value: unknown, expiresAt = Date.now() + 60_000): StoredCacheEntry =>
+  ({ key, value, createdAt: Date.now(), expiresAt });
+
+describe('DiskCacheStore', () => {
+  let dir: string;
+  let store: DiskCacheStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'diskcache-test-'));
+    store = new DiskCacheStore(path.join(dir, 'cache'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips entries and deletes them', async () => {
+    await store.set({ ...entry('github/a/b/openrank.json', { '2024-01': 1 }), etag: '"abc"' });
+    expect(await store.get('github/a/b/openrank.json')).toMatchObject({ value: { '2024-01': 1 }, etag: '"abc"' });
+    expect(await store.get('github/a/b/stars.json')).toBeUndefined();
+
+    await store.delete('github/a/b/openrank.json');
+    expect(await store.get('github/a/b/openrank.json')).toBeUndefined();
+  });
+
+  it('keeps one complete file when writes of the same key overlap', async () => {
+    const values = Array.from({ length: 20 }, (_, i) => 'x'.repeat(10_000 * (i + 1)));
+    await Promise.all(values.map(value => store.set(entry('same-key', value))));
+
+    expect(values).toContain((await store.get('same-key'))?.value);
+    expect(await readdir(store.directory)).toHaveLength(1);
+  });
+
+  it('removes the temp file when a write fails', async () => {
+    // A directory in place of the entry file makes the rename fail
+    const file = path.join(store.directory, `${createHash('sha1').update('blocked').digest('hex')}.json`);
+    await mkdir(file, { recursive: true });
+
+    await expect(store.set(entry('blocked', 1))).rejects.toThrow();
+    expect((await readdir(store.directory)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('prunes expired and unreadable entries and clears the rest', async () => {
+    await store.set(entry('fresh', 1));
+    await store.set(entry('expired', 2, Date.now() - 1));
+
+    expect(await store.prune(stored => stored.expiresAt < Date.now())).toBe(1);
+    expect(await store.get('fresh')).toBeDefined();
+    expect(await store.get('expired')).toBeUndefined();
+    expect(await store.clear()).toBe(1);
+    expect(await store.get('fresh')).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @file diskcache.ts
+ * @description
+ * File-system backed store for cache entries, used by `utils.ts` to keep cached
+ * OpenDigger responses across server restarts.
+ *
+ * Each entry is written as one JSON file named after the SHA-1 of its cache key.
+ * Writes go through a temporary file and a rename so a crash never leaves a
+ * half-written entry behind.
+ */
+
+
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Serialized form of a cache entry on disk.
+ */
+export interface StoredCacheEntry {
+  key: string;
+  value: unknown;
+  createdAt: number;
+  expiresAt: number;
+  status?: number | undefined;
+  etag?: string | undefined;
+  lastModified?: string | undefined;
+}
+
+export class DiskCacheStore {
+  readonly directory: string;
+  private ready: Promise<void> | undefined;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = mkdir(this.directory, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  /**
+   * Reads an entry, returning undefined when it does not exist or cannot be parsed.
+   */
+  async get(key: string): Promise<StoredCacheEntry | undefined> {
+    try {
+      const entry = JSON.parse(await readFile(this.fileFor(key), 'utf8')) as StoredCacheEntry;
+      return entry.key === key ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(entry: StoredCacheEntry): Promise<void> {
+    await this.ensureDirectory();
+    const file = this.fileFor(entry.key);
+    // Concurrent writes of the same key (a revalidation racing a miss) each need their own file
+    const partial = `${file}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(partial, JSON.stringify(entry), 'utf8');
+      await rename(partial, file);
+    } catch (error) {
+      await rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.fileFor(key), { force: true });
+  }
+
+  /**
+   * Removes every entry whose stale window has ended.
+   *
+   * @param isExpired - Decides from the stored metadata whether an entry can be dropped.
+   * @returns Number of removed entries.
+   */
+  async prune(isExpired: (entry: StoredCacheEntry) => boolean): Promise<number> {
+    let removed = 0;
+    for (const file of await this.listFiles()) {
+      try {
+        const entry = JSON.parse(await readFile(file, 'utf8')) as StoredCacheEntry;
+        if (!isExpired(entry)) continue;
+      } catch {
+        // Unreadable entries are removed as well
+      }
+      await rm(file, { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  async clear(): Promise<number> {
+    const files = await this.listFiles();
+    await Promise.all(files.map(file => rm(file, { force: true })));
+    return files.length;
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      const names = await readdir(this.directory);
+      return names.filter(name => name.endsWith('.json')).map(name => path.join(this.directory, name));
+    } catch {
+      return [];
+    }
+  }
+}
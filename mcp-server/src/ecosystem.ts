@@ -0,0 +1,273 @@
+/**
+ * @file ecosystem.ts
+ * @description
+ * Ecosystem-level rollups over a set of repositories: totals, top-N rankings, concentration
+ * measures, and growth leaders per metric.
+ *
+ * OpenDigger has no endpoint listing the repositories of an organization, topic or language, so
+ * the repository set is supplied by the caller or read from a locally maintained definition file
+ * (ECOSYSTEM_DEFINITIONS_FILE), a JSON object keyed by category and ecosystem name:
+ *
+ *   { "organization": { "my-org": ["my-org/api", "my-org/web"] }, "topic": { "llm": ["owner/repo"] } }
+ *
+ * The same file holds the named peer cohorts used by `benchmark_repository`, under `cohort`.
+ */
+
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import { extractSeries, shiftMonth } from './analysis.js';
+
+export type EcosystemCategory = 'language' | 'topic' | 'organization';
+
+/**
+ * Sections of the definition file: ecosystems, plus benchmark cohorts.
+ */
+export type DefinitionCategory = EcosystemCategory | 'cohort';
+
+const REPOSITORY_PATTERN = /^[^/\s]+\/[^/\s]+$/;
+
+const definitionSchema = z.object({
+  language: z.record(z.array(z.string().regex(REPOSITORY_PATTERN, 'Expected "owner/repo"'))).optional(),
+  topic: z.record(z.array(z.string().regex(REPOSITORY_PATTERN, 'Expected "owner/repo"'))).optional(),
+  organization: z.record(z.array(z.string().regex(REPOSITORY_PATTERN, 'Expected "owner/repo"'))).optional(),
+  cohort: z.record(z.array(z.string().regex(REPOSITORY_PATTERN, 'Expected "owner/repo"'))).optional()
+});
+
+/**
+ * Path of the ecosystem definition file, if one is configured.
+ */
+export function getEcosystemDefinitionsFile(): string | undefined {
+  const file = process.env.ECOSYSTEM_DEFINITIONS_FILE?.trim();
+  return file ? path.resolve(file) : undefined;
+}
+
+/**
+ * Looks up the repositories of an ecosystem or cohort in the definition file. Names match case-insensitively.
+ * The file is re-read on every call so edits apply without restarting the server.
+ *
+ * @returns The "owner/repo" list, or undefined when no file is configured or it has no such entry.
+ * @throws Error if the configured file cannot be read or does not match the expected format.
+ */
+export async function loadEcosystemRepositories(category: DefinitionCategory, name: string): Promise<string[] | undefined> {
+  const file = getEcosystemDefinitionsFile();
+  if (!file) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read ecosystem definitions from ${file}: ${(error as Error).message}`);
+  }
+  const result = definitionSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.errors[0]!;
+    throw new Error(`Invalid ecosystem definitions in ${file} at ${issue.path.join('.') || '<root>'}: ${issue.message}`);
+  }
+
+  const entries = result.data[category] ?? {};
+  const key = Object.keys(entries).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+  return key ? entries[key] : undefined;
+}
+
+/**
+ * Resolves caller-supplied repository names to "owner/repo". For organizations, bare repository
+ * names are taken to belong to the organization itself.
+ *
+ * @throws Error if a name cannot be resolved.
+ */
+export function normalizeRepositories(category: DefinitionCategory, value: string, repositories: string[]): string[] {
+  const resolved = repositories.map(name => {
+    const trimmed = name.trim().replace(/^\/+|\/+$/g, '');
+    if (REPOSITORY_PATTERN.test(trimmed)) return trimmed;
+    if (category === 'organization' && /^[^/\s]+$/.test(trimmed)) return `${value}/${trimmed}`;
+    throw new Error(`Invalid repository "${name}": expected "owner/repo"${category === 'organization' ? ' or a repository name within the organization' : ''}`);
+  });
+  return [...new Set(resolved)];
+}
+
+/**
+ * Per-repository metric data as fetched by the caller; undefined marks a failed or missing metric.
+ */
+export interface EcosystemMember {
+  repository: string;
+  metrics: Record<string, unknown>;
+}
+
+export interface RankedRepository {
+  repository: string;
+  value: number;
+  share: number;
+}
+
+export interface GrowthLeader {
+  repository: string;
+  recentAverage: number;
+  previousAverage: number;
+  growthPercent: number | null;
+}
+
+/**
+ * Rollup of one metric across the ecosystem.
+ */
+export interface MetricRollup {
+  metric: string;
+  referenceMonth: string | null;
+  repositoriesWithData: number;
+  total: number;
+  average: number;
+  median: number;
+  top: RankedRepository[];
+  concentration: {
+    topShare: number;
+    herfindahlIndex: number;
+    effectiveRepositories: number | null;
+    gini: number;
+  };
+  growth: {
+    window: string | null;
+    recentTotal: number;
+    previousTotal: number;
+    growthPercent: number | null;
+    leaders: GrowthLeader[];
+  };
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+/**
+ * Gini coefficient of non-negative values: 0 when evenly spread, approaching 1 when one repository holds everything.
+ */
+function gini(values: number[]): number {
+  const sorted = values.filter(v => v > 0).sort((a, b) => a - b);
+  const total = sorted.reduce((sum, v) => sum + v, 0);
+  if (values.length < 2 || total === 0) return 0;
+  // Repositories without activity count as zeros at the bottom of the distribution
+  const n = values.length;
+  const offset = n - sorted.length;
+  const weighted = sorted.reduce((sum, v, i) => sum + (offset + i + 1) * v, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+function percentChange(recent: number, previous: number): number | null {
+  return previous !== 0 ? Number((((recent - previous) / Math.abs(previous)) * 100).toFixed(2)) : null;
+}
+
+/**
+ * Aggregates one metric across all members.
+ *
+ * Values are compared at a common reference month (the latest month any member has), so archived
+ * repositories contribute 0 instead of a stale figure. Growth compares the average of the last
+ * 12 months with the 12 months before.
+ */
+function rollupMetric(members: EcosystemMember[], metric: string, limit: number): MetricRollup {
+  const series = members.flatMap(member => {
+    const data = member.metrics[metric];
+    if (data === undefined) return [];
+    const points = extractSeries(data).points;
+    return points.length > 0 ? [{ repository: member.repository, values: new Map(points.map(p => [p.date, p.value])) }] : [];
+  });
+
+  const referenceMonth = series.reduce<string | null>((latest, entry) => {
+    const last = [...entry.values.keys()].pop()!;
+    return latest === null || last > latest ? last : latest;
+  }, null);
+
+  const average = (values: Map<string, number>, from: number, to: number) => {
+    let sum = 0;
+    for (let delta = from; delta <= to; delta++) sum += values.get(shiftMonth(referenceMonth!, -delta)) ?? 0;
+    return sum / (to - from + 1);
+  };
+
+  const current = series.map(entry => ({
+    repository: entry.repository,
+    value: referenceMonth ? entry.values.get(referenceMonth) ?? 0 : 0,
+    recentAverage: referenceMonth ? average(entry.values, 0, 11) : 0,
+    previousAverage: referenceMonth ? average(entry.values, 12, 23) : 0
+  }));
+
+  const values = current.map(entry => entry.value);
+  const total = values.reduce((sum, v) => sum + v, 0);
+  const shares = values.map(v => (total > 0 ? v / total : 0));
+  const herfindahl = shares.reduce((sum, share) => sum + share * share, 0);
+  const ranked = [...current].sort((a, b) => b.value - a.value);
+  const top = ranked.slice(0, limit).map(entry => ({
+    repository: entry.repository,
+    value: round(entry.value),
+    share: round(total > 0 ? entry.value / total : 0)
+  }));
+
+  const recentTotal = current.reduce((sum, entry) => sum + entry.recentAverage, 0);
+  const previousTotal = current.reduce((sum, entry) => sum + entry.previousAverage, 0);
+  const leaders = current
+    .filter(entry => entry.recentAverage > 0)
+    .map(entry => ({
+      repository: entry.repository,
+      recentAverage: round(entry.recentAverage),
+      previousAverage: round(entry.previousAverage),
+      growthPercent: percentChange(entry.recentAverage, entry.previousAverage)
+    }))
+    // Rank by absolute growth so that tiny repositories with large percentages do not dominate
+    .sort((a, b) => (b.recentAverage - b.previousAverage) - (a.recentAverage - a.previousAverage))
+    .slice(0, limit);
+
+  return {
+    metric,
+    referenceMonth,
+    repositoriesWithData: series.length,
+    total: round(total),
+    average: round(series.length > 0 ? total / series.length : 0),
+    median: round(median(values)),
+    top,
+    concentration: {
+      topShare: round(top.reduce((sum, entry) => sum + entry.share, 0)),
+      herfindahlIndex: round(herfindahl),
+      effectiveRepositories: herfindahl > 0 ? Number((1 / herfindahl).toFixed(2)) : null,
+      gini: round(gini(values))
+    },
+    growth: {
+      window: referenceMonth ? `${shiftMonth(referenceMonth, -23)}..${shiftMonth(referenceMonth, -12)} vs ${shiftMonth(referenceMonth, -11)}..${referenceMonth}` : null,
+      recentTotal: round(recentTotal),
+      previousTotal: round(previousTotal),
+      growthPercent: percentChange(recentTotal, previousTotal),
+      leaders
+    }
+  };
+}
+
+/**
+ * Builds per-metric rollups for an ecosystem.
+ *
+ * @param members - Repositories with their fetched metric data.
+ * @param metrics - Metrics to aggregate.
+ * @param limit - Size of the top-N and growth-leader lists.
+ * @returns One rollup per metric plus highlights across metrics.
+ */
+export function summarizeEcosystem(members: EcosystemMember[], metrics: string[], limit: number) {
+  const rollups = metrics.map(metric => rollupMetric(members, metric, limit));
+  const highlights = rollups.flatMap(rollup => {
+    const notes: string[] = [];
+    const leader = rollup.top[0];
+    if (leader && leader.share >= 0.5 && rollup.repositoriesWithData > 1) {
+      notes.push(`${leader.repository} accounts for ${(leader.share * 100).toFixed(1)}% of ${rollup.metric}`);
+    }
+    if (rollup.growth.growthPercent !== null) {
+      notes.push(`Ecosystem ${rollup.metric} ${rollup.growth.growthPercent >= 0 ? 'grew' : 'declined'} ${Math.abs(rollup.growth.growthPercent)}% over the last 12 months`);
+    }
+    const fastest = rollup.growth.leaders[0];
+    if (fastest && fastest.recentAverage > fastest.previousAverage) {
+      notes.push(`${fastest.repository} added the most ${rollup.metric}`);
+    }
+    return notes;
+  });
+
+  return { metrics: rollups, highlights };
+}
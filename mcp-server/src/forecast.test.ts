@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { forecastSeries } from './forecast.js';
+import { shiftMonth } from './analysis.js';
+
+const series = (values: number[], from = '2020-01') => values.map((value, i) => ({ date: shiftMonth(from, i), value }));
+
+describe('forecastSeries', () => {
+  it('extends a straight line exactly with the linear model', () => {
+    const result = forecastSeries(series(Array.from({ length: 24 }, (_, i) => 10 + 2 * i)), { model: 'linear', horizon: 3 });
+    expect(result.model).toBe('linear');
+    expect(result.forecast.map(point => point.date)).toEqual(['2022-01', '2022-02', '2022-03']);
+    expect(result.forecast.map(point => point.value)).toEqual([58, 60, 62]);
+    expect(result.parameters.slope).toBeCloseTo(2);
+    expect(result.backtest?.mae).toBeCloseTo(0);
+  });
+
+  it('widens prediction intervals with the horizon and the confidence level', () => {
+    const noisy = series(Array.from({ length: 36 }, (_, i) => 100 + i + (i % 3) * 5));
+    const result = forecastSeries(noisy, { model: 'holt', horizon: 6, confidenceLevel: 0.8 });
+    const wide = forecastSeries(noisy, { model: 'holt', horizon: 6, confidenceLevel: 0.99 });
+    const width = (point: { lower: number; upper: number }) => point.upper - point.lower;
+
+    result.forecast.forEach(point => expect(point.lower).toBeLessThanOrEqual(point.value));
+    expect(width(result.forecast[5]!)).toBeGreaterThan(width(result.forecast[0]!));
+    expect(width(wide.forecast[0]!)).toBeGreaterThan(width(result.forecast[0]!));
+  });
+
+  it('picks up a yearly season with Holt-Winters', () => {
+    const seasonal = series(Array.from({ length: 48 }, (_, i) => 50 + i + (i % 12 === 11 ? 40 : 0)));
+    const result = forecastSeries(seasonal, { model: 'holt_winters', horizon: 12 });
+    const december = result.forecast.find(point => point.date === '2024-12')!;
+    const november = result.forecast.find(point => point.date === '2024-11')!;
+    expect(december.value - november.value).toBeGreaterThan(20);
+  });
+
+  it('clamps projections of a falling series at zero', () => {
+    const result = forecastSeries(series([50, 40, 30, 20, 10, 5]), { model: 'linear', horizon: 6 });
+    result.forecast.forEach(point => expect(point.lower).toBeGreaterThanOrEqual(0));
+    expect(result.forecast[5]!.value).toBe(0);
+  });
+
+  it('interpolates missing months so projected months follow the last real one', () => {
+    const gappy = series(Array.from({ length: 12 }, (_, i) => i)).filter((_, i) => i !== 3 && i !== 4);
+    const result = forecastSeries(gappy, { model: 'linear', horizon: 2 });
+    expect(result.training).toMatchObject({ points: 12, filledMonths: 2, end: '2020-12' });
+    expect(result.forecast.map(point => point.date)).toEqual(['2021-01', '2021-02']);
+    expect(result.forecast[0]!.value).toBeCloseTo(12);
+    expect(result.warnings.some(warning => warning.includes('2 missing month(s)'))).toBe(true);
+  });
+
+  it('ranks auto candidates on one measure, falling back to RMSE when MAPE is undefined', () => {
+    const growing = forecastSeries(series(Array.from({ length: 40 }, (_, i) => 20 + i * 3)), { horizon: 6 });
+    expect(growing.rankedBy).toBe('mape');
+    expect(growing.candidates.map(candidate => candidate.model)).toEqual(['linear', 'holt', 'holt_winters']);
+
+    // A holdout of zeros has no percentage error for any candidate
+    const dormant = forecastSeries(series([...Array.from({ length: 20 }, (_, i) => 20 - i), 0, 0, 0, 0, 0]), { horizon: 6 });
+    expect(dormant.rankedBy).toBe('rmse');
+    const best = Math.min(...dormant.candidates.map(candidate => candidate.backtest?.rmse ?? Number.POSITIVE_INFINITY));
+    expect(dormant.backtest?.rmse).toBe(best);
+  });
+
+  it('reports too-short series instead of forecasting', () => {
+    const result = forecastSeries(series([1, 2]), { horizon: 3 });
+    expect(result.forecast).toEqual([]);
+    expect(result.warnings[0]).toMatch(/Not enough data for linear/);
+  });
+});
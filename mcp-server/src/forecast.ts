@@ -0,0 +1,357 @@
+/**
+ * @file forecast.ts
+ * @description
+ * Time-series forecasting for OpenDigger metrics. Projects a monthly series forward with one
+ * of a few classic models and reports prediction intervals plus a holdout backtest score, so
+ * projections are grounded in how well the model would have predicted the recent past.
+ *
+ * Models:
+ * - linear: ordinary least squares on the period index
+ * - holt: double exponential smoothing (level + trend)
+ * - holt_winters: additive triple exponential smoothing (level + trend + seasonality)
+ * - auto: the model with the lowest backtest error
+ *
+ * The models work on consecutive periods, so months missing from the series are filled by
+ * linear interpolation first; otherwise a gap would shift the seasonal period and the labels of
+ * the projected months.
+ */
+
+
+import { shiftMonth } from './analysis.js';
+
+export type ForecastModel = 'linear' | 'holt' | 'holt_winters';
+
+/**
+ * Options controlling a forecast.
+ */
+export interface ForecastOptions {
+  model?: ForecastModel | 'auto' | undefined;
+  /** Number of months to project. */
+  horizon: number;
+  /** Coverage of the prediction interval (default: 0.95). */
+  confidenceLevel?: number | undefined;
+  /** Season length in periods for Holt-Winters (default: 12 months). */
+  seasonLength?: number | undefined;
+}
+
+/**
+ * A single projected period with its prediction interval.
+ */
+export interface ForecastPoint {
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Holdout backtest score: the model is fitted without the last `holdoutPoints` periods and
+ * its projection is compared with what actually happened.
+ */
+export interface BacktestScore {
+  holdoutPoints: number;
+  mae: number;
+  rmse: number;
+  /** Mean absolute percentage error; null when the holdout only contains zeros. */
+  mape: number | null;
+}
+
+/**
+ * Represents the result of forecasting a metric series.
+ */
+export interface ForecastResult {
+  model: ForecastModel;
+  requestedModel: ForecastModel | 'auto';
+  horizon: number;
+  confidenceLevel: number;
+  training: {
+    points: number;
+    /** Months missing from the series that were interpolated. */
+    filledMonths: number;
+    start?: string | undefined;
+    end?: string | undefined;
+  };
+  parameters: Record<string, number>;
+  forecast: ForecastPoint[];
+  backtest: BacktestScore | null;
+  candidates: Array<{ model: ForecastModel; backtest: BacktestScore | null }>;
+  /** Backtest error measure the candidates were ranked by. */
+  rankedBy: 'mape' | 'rmse';
+  warnings: string[];
+}
+
+interface FittedModel {
+  parameters: Record<string, number>;
+  /** Point forecasts and their standard errors for steps 1..h. */
+  project(h: number): Array<{ value: number; standardError: number }>;
+}
+
+const Z_SCORES: Record<string, number> = {
+  '0.8': 1.2816,
+  '0.9': 1.6449,
+  '0.95': 1.96,
+  '0.99': 2.5758
+};
+
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const SEASONAL_GRID = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+/**
+ * Minimum number of observations each model needs to be fitted.
+ */
+function minimumPoints(model: ForecastModel, seasonLength: number): number {
+  switch (model) {
+    case 'linear': return 3;
+    case 'holt': return 4;
+    case 'holt_winters': return seasonLength * 2 + 1;
+  }
+}
+
+function fitLinear(y: number[]): FittedModel {
+  const n = y.length;
+  const tMean = (n - 1) / 2;
+  const yMean = y.reduce((sum, v) => sum + v, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  y.forEach((value, t) => {
+    sxx += (t - tMean) ** 2;
+    sxy += (t - tMean) * (value - yMean);
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = yMean - slope * tMean;
+  const sse = y.reduce((sum, value, t) => sum + (value - (intercept + slope * t)) ** 2, 0);
+  const sigma = n > 2 ? Math.sqrt(sse / (n - 2)) : 0;
+
+  return {
+    parameters: { intercept, slope, residualStdDev: sigma },
+    project: (h) => Array.from({ length: h }, (_, k) => {
+      const t = n - 1 + k + 1;
+      return {
+        value: intercept + slope * t,
+        standardError: sigma * Math.sqrt(1 + 1 / n + (sxx > 0 ? (t - tMean) ** 2 / sxx : 0))
+      };
+    })
+  };
+}
+
+function runHolt(y: number[], alpha: number, beta: number) {
+  let level = y[0]!;
+  let trend = y[1]! - y[0]!;
+  let sse = 0;
+  for (let t = 1; t < y.length; t++) {
+    const error = y[t]! - (level + trend);
+    sse += error ** 2;
+    const nextLevel = alpha * y[t]! + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    level = nextLevel;
+  }
+  return { level, trend, sse };
+}
+
+function fitHolt(y: number[]): FittedModel {
+  let best = { alpha: 0.5, beta: 0.5, ...runHolt(y, 0.5, 0.5) };
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      const run = runHolt(y, alpha, beta);
+      if (run.sse < best.sse) best = { alpha, beta, ...run };
+    }
+  }
+  const sigma = Math.sqrt(best.sse / Math.max(1, y.length - 3));
+
+  return {
+    parameters: { alpha: best.alpha, beta: best.beta, residualStdDev: sigma },
+    project: (h) => Array.from({ length: h }, (_, k) => {
+      const step = k + 1;
+      // Variance multiplier of additive Holt: 1 + sum_{j=1}^{h-1} (alpha * (1 + j * beta))^2
+      let multiplier = 1;
+      for (let j = 1; j < step; j++) multiplier += (best.alpha * (1 + j * best.beta)) ** 2;
+      return { value: best.level + step * best.trend, standardError: sigma * Math.sqrt(multiplier) };
+    })
+  };
+}
+
+function runHoltWinters(y: number[], m: number, alpha: number, beta: number, gamma: number) {
+  const firstSeasonMean = y.slice(0, m).reduce((sum, v) => sum + v, 0) / m;
+  const secondSeasonMean = y.slice(m, 2 * m).reduce((sum, v) => sum + v, 0) / m;
+  let level = firstSeasonMean;
+  let trend = (secondSeasonMean - firstSeasonMean) / m;
+  const seasonal = y.slice(0, m).map(v => v - firstSeasonMean);
+  let sse = 0;
+
+  for (let t = m; t < y.length; t++) {
+    const season = seasonal[t - m]!;
+    const error = y[t]! - (level + trend + season);
+    sse += error ** 2;
+    const nextLevel = alpha * (y[t]! - season) + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    seasonal[t] = gamma * (y[t]! - nextLevel) + (1 - gamma) * season;
+    level = nextLevel;
+  }
+  return { level, trend, seasonal, sse };
+}
+
+function fitHoltWinters(y: number[], m: number): FittedModel {
+  let best = { alpha: 0.5, beta: 0.1, gamma: 0.1, ...runHoltWinters(y, m, 0.5, 0.1, 0.1) };
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      for (const gamma of SEASONAL_GRID) {
+        const run = runHoltWinters(y, m, alpha, beta, gamma);
+        if (run.sse < best.sse) best = { alpha, beta, gamma, ...run };
+      }
+    }
+  }
+  const n = y.length;
+  const sigma = Math.sqrt(best.sse / Math.max(1, n - m - 3));
+
+  return {
+    parameters: { alpha: best.alpha, beta: best.beta, gamma: best.gamma, seasonLength: m, residualStdDev: sigma },
+    project: (h) => Array.from({ length: h }, (_, k) => {
+      const step = k + 1;
+      const season = best.seasonal[n - m + ((step - 1) % m)]!;
+      // Variance multiplier of additive Holt-Winters: c_j = alpha * (1 + j * beta) + gamma * [j mod m = 0]
+      let multiplier = 1;
+      for (let j = 1; j < step; j++) multiplier += (best.alpha * (1 + j * best.beta) + (j % m === 0 ? best.gamma : 0)) ** 2;
+      return { value: best.level + step * best.trend + season, standardError: sigma * Math.sqrt(multiplier) };
+    })
+  };
+}
+
+function fitModel(model: ForecastModel, y: number[], seasonLength: number): FittedModel {
+  switch (model) {
+    case 'linear': return fitLinear(y);
+    case 'holt': return fitHolt(y);
+    case 'holt_winters': return fitHoltWinters(y, seasonLength);
+  }
+}
+
+/**
+ * Fits a model without the last periods of the series and scores its projection against them.
+ */
+function backtest(model: ForecastModel, y: number[], horizon: number, seasonLength: number): BacktestScore | null {
+  const holdout = Math.min(horizon, Math.max(1, Math.floor(y.length * 0.2)));
+  const training = y.slice(0, y.length - holdout);
+  if (training.length < minimumPoints(model, seasonLength)) return null;
+
+  const predicted = fitModel(model, training, seasonLength).project(holdout).map(p => Math.max(0, p.value));
+  const actual = y.slice(y.length - holdout);
+  const errors = actual.map((value, i) => value - predicted[i]!);
+  const percentage = actual
+    .map((value, i) => value !== 0 ? Math.abs(errors[i]! / value) : undefined)
+    .filter((value): value is number => value !== undefined);
+
+  return {
+    holdoutPoints: holdout,
+    mae: Number((errors.reduce((sum, e) => sum + Math.abs(e), 0) / holdout).toFixed(4)),
+    rmse: Number(Math.sqrt(errors.reduce((sum, e) => sum + e ** 2, 0) / holdout).toFixed(4)),
+    mape: percentage.length > 0 ? Number(((percentage.reduce((sum, p) => sum + p, 0) / percentage.length) * 100).toFixed(2)) : null
+  };
+}
+
+/**
+ * Picks the error measure that ranks the candidates: MAPE when every backtested candidate has
+ * one, RMSE otherwise. Mixing the two would compare a percentage with an absolute error.
+ */
+function rankingMeasure(scores: Array<BacktestScore | null>): 'mape' | 'rmse' {
+  const scored = scores.filter((score): score is BacktestScore => score !== null);
+  return scored.length > 0 && scored.every(score => score.mape !== null) ? 'mape' : 'rmse';
+}
+
+function backtestRank(score: BacktestScore | null, measure: 'mape' | 'rmse'): number {
+  if (!score) return Number.POSITIVE_INFINITY;
+  return score[measure] ?? Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Inserts the months missing between the first and last point, interpolating their values
+ * linearly between the neighbouring months.
+ */
+function fillMissingMonths(points: Array<{date: string; value: number}>): { points: Array<{date: string; value: number}>; filled: string[] } {
+  const filled: string[] = [];
+  const result: Array<{date: string; value: number}> = [];
+  points.forEach((point, i) => {
+    const date = point.date.substring(0, 7);
+    const previous = result[result.length - 1];
+    if (previous && i > 0) {
+      let gap = 0;
+      while (shiftMonth(previous.date, gap + 1) < date) gap++;
+      for (let k = 1; k <= gap; k++) {
+        const month = shiftMonth(previous.date, k);
+        filled.push(month);
+        result.push({ date: month, value: previous.value + ((point.value - previous.value) * k) / (gap + 1) });
+      }
+    }
+    result.push({ date, value: point.value });
+  });
+  return { points: result, filled };
+}
+
+/**
+ * Forecasts a monthly series forward.
+ *
+ * @param points - Sorted monthly series (`YYYY-MM` dates).
+ * @param options - Model, horizon, interval coverage and season length.
+ * @returns Point forecasts with prediction intervals, the backtest score and any warnings.
+ */
+export function forecastSeries(series: Array<{date: string; value: number}>, options: ForecastOptions): ForecastResult {
+  const requestedModel = options.model ?? 'auto';
+  const seasonLength = options.seasonLength ?? 12;
+  const confidenceLevel = options.confidenceLevel ?? 0.95;
+  const z = Z_SCORES[String(confidenceLevel)] ?? 1.96;
+  const { points, filled } = fillMissingMonths(series);
+  const y = points.map(p => p.value);
+  const warnings: string[] = [];
+  if (filled.length > 0) {
+    warnings.push(`${filled.length} missing month(s) were interpolated before fitting (${filled.slice(0, 3).join(', ')}${filled.length > 3 ? ', ...' : ''})`);
+  }
+
+  const allModels: ForecastModel[] = ['linear', 'holt', 'holt_winters'];
+  const feasible = allModels.filter(model => y.length >= minimumPoints(model, seasonLength));
+  const candidates = (requestedModel === 'auto' ? feasible : feasible.filter(model => model === requestedModel))
+    .map(model => ({ model, backtest: backtest(model, y, options.horizon, seasonLength) }));
+
+  const result: ForecastResult = {
+    model: requestedModel === 'auto' ? 'linear' : requestedModel,
+    requestedModel,
+    horizon: options.horizon,
+    confidenceLevel,
+    training: { points: y.length, filledMonths: filled.length, start: points[0]?.date, end: points[points.length - 1]?.date },
+    parameters: {},
+    forecast: [],
+    backtest: null,
+    candidates,
+    rankedBy: rankingMeasure(candidates.map(candidate => candidate.backtest)),
+    warnings
+  };
+
+  if (candidates.length === 0) {
+    const model = requestedModel === 'auto' ? 'linear' : requestedModel;
+    warnings.push(`Not enough data for ${model}: need at least ${minimumPoints(model, seasonLength)} monthly points, got ${y.length}`);
+    return result;
+  }
+
+  const chosen = [...candidates].sort((a, b) => backtestRank(a.backtest, result.rankedBy) - backtestRank(b.backtest, result.rankedBy))[0]!;
+  const fitted = fitModel(chosen.model, y, seasonLength);
+  const lastDate = points[points.length - 1]!.date;
+
+  result.model = chosen.model;
+  result.parameters = Object.fromEntries(Object.entries(fitted.parameters).map(([key, value]) => [key, Number(value.toFixed(4))]));
+  result.backtest = chosen.backtest;
+  result.forecast = fitted.project(options.horizon).map((point, k) => ({
+    date: shiftMonth(lastDate, k + 1),
+    // OpenDigger metrics are non-negative, so projections and bounds are clamped at zero
+    value: Number(Math.max(0, point.value).toFixed(2)),
+    lower: Number(Math.max(0, point.value - z * point.standardError).toFixed(2)),
+    upper: Number(Math.max(0, point.value + z * point.standardError).toFixed(2))
+  }));
+
+  if (!chosen.backtest) {
+    warnings.push('Series too short for a holdout backtest; treat the forecast as indicative only');
+  } else if (chosen.backtest.mape !== null && chosen.backtest.mape > 50) {
+    warnings.push(`Backtest error is high (MAPE ${chosen.backtest.mape}%); the series may be too irregular to forecast reliably`);
+  }
+  if (requestedModel === 'holt_winters' && y.length < seasonLength * 3) {
+    warnings.push('Fewer than three seasons of history; seasonal estimates may be unstable');
+  }
+
+  return result;
+}
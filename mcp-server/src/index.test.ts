@@ -0,0 +1,42 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const serverEntry = path.join(path.dirname(fileURLToPath(import.meta.url)), 'index.ts');
+
+// Runs the server over stdio from source, as an MCP client would
+describe('MCP server over stdio', () => {
+  const client = new Client({ name: 'index-test', version: '1.0.0' });
+
+  beforeAll(async () => {
+    const { MCP_TRANSPORT, SSE_PORT, ...env } = process.env as Record<string, string>;
+    await client.connect(new StdioClientTransport({
+      command: process.execPath,
+      args: ['--import', 'tsx', serverEntry],
+      env,
+      stderr: 'ignore'
+    }));
+  }, 30_000);
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('lists the scoring profiles when called without arguments', async () => {
+    const result = await client.callTool({ name: 'list_scoring_profiles' });
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    const body = JSON.parse(content!.text);
+
+    expect(body.error).toBeUndefined();
+    expect(body.defaultProfile).toEqual(expect.any(String));
+    expect(body.profiles.map((profile: { name: string }) => profile.name)).toContain(body.defaultProfile);
+  });
+
+  it('still validates tools that require arguments', async () => {
+    const result = await client.callTool({ name: 'get_open_digger_metric' });
+    const [content] = result.content as Array<{ type: string; text: string }>;
+    expect(JSON.parse(content!.text).error).toMatch(/Invalid input/);
+  });
+});
@@ -7,6 +7,15 @@
  * - Fetching single or batch metrics from OpenDigger
  * - Comparing repositories across key metrics
  * - Analyzing trends over time
+ * - Forecasting metrics with confidence intervals
+ * - Detecting anomalies and change points in metric series
+ * - Correlating metrics and finding lead/lag relationships
+ * - Analyzing developer and repository collaboration networks
+ * - Contributor retention and churn cohorts
+ * - Sustainability and bus-factor risk assessment
+ * - Absolute, explainable repository health scores with configurable scoring profiles
+ * - Percentile benchmarking against peer cohorts
+ * - Developer comparison and profiles
  * - Generating ecosystem insights
  * - Providing server health and cache statistics
  *
@@ -14,20 +23,35 @@
  * - Enhanced error handling and suggestions
  * - Batch processing with rate limiting
  * - Caching with TTL support
+ * - Remote MCP access over Streamable HTTP with per-client sessions
  * - SSE (Server-Sent Events) for real-time updates
  * - Comprehensive prompts for analysis and visualization
  * - Health monitoring and performance metrics
  *
  * Environment Variables:
- * - CACHE_TTL_SECONDS: Cache time-to-live in seconds (default: 300)
- * - SSE_PORT: Port for SSE HTTP server (optional)
- * - SSE_HOST: Host for SSE HTTP server (default: 0.0.0.0)
+ * - CACHE_TTL_SECONDS: Cache time-to-live in seconds (default: package.json config.cache_ttl_default)
+ * - BATCH_SIZE: Requests processed together by the batch tool (default: package.json config.batch_size_default)
+ * - MAX_CONCURRENT_REQUESTS: Global upstream concurrency limit (default: package.json config.max_concurrent_requests)
+ * - REQUESTS_PER_SECOND: Optional global upstream requests-per-second budget
+ * - MCP_TRANSPORT: "stdio" (default) or "http" to serve MCP only over Streamable HTTP
+ * - SSE_PORT: Port for the HTTP server with the /mcp, /health and /sse endpoints (optional; default 3000 when MCP_TRANSPORT=http)
+ * - SSE_HOST: Host for the HTTP server (default: 0.0.0.0)
+ * - MCP_SESSION_IDLE_SECONDS: Streamable HTTP sessions idle for longer are closed (default: 1800)
+ * - MCP_API_KEYS: Comma-separated "name:key" API keys required by the HTTP server (optional)
+ * - MCP_API_KEYS_FILE: JSON or YAML file of API keys, optionally scoped to tools, validated at startup
+ * - CORS_ALLOWED_ORIGINS: Comma-separated browser origins allowed to call the HTTP server (default: any)
+ * - CLIENT_RATE_LIMIT_PER_MINUTE / CLIENT_RATE_LIMIT_BURST: Per-client token bucket on HTTP routes (default: 120 / 60; 0 disables)
+ * - CLIENT_DAILY_QUOTA: Units each HTTP client may spend per UTC day (default: 0, unlimited)
+ * - OPENDIGGER_DATA_SOURCE: HTTP mirror URL, local directory or tarball snapshot to read metrics from
+ * - OPENDIGGER_BASE_URL: HTTP base URL (default: https://oss.open-digger.cn/)
+ * - ECOSYSTEM_DEFINITIONS_FILE: JSON file listing the repositories of organizations, topics, languages and benchmark cohorts
+ * - HEALTH_PROFILES_FILE: JSON or YAML file defining health-scoring profiles, validated at startup
  *
  * Dependencies:
  * - @modelcontextprotocol/sdk
  * - zod, zod-to-json-schema
  * - node:http, node:url
- * - Custom utilities: utils.js, version.js, analysis.js
+ * - Custom utilities: utils.js, version.js, analysis.js, datasource.js, resilience.js, scheduler.js, config.js, sessions.js, auth.js, ratelimit.js
  */
 
 
@@ -38,38 +62,122 @@ import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import http, { IncomingMessage, ServerResponse } from 'node:http';
 import { URL } from 'node:url';
-import { fetchWithCache, getCacheStats, clearExpiredCache } from './utils.js';
+import { performance } from 'node:perf_hooks';
+import { fetchWithCache, getCacheStats, clearExpiredCache, type Provenance } from './utils.js';
 import { VERSION } from './version.js';
-import { generateComparisonAnalysis, processTrendData, extractLatestValue, generateErrorSuggestions, calculateHealthScore } from './analysis.js';
-
-
-const server = new Server(
-  {
-    name: 'open-digger-mcp-server',
-    version: VERSION,
-  },
-  {
-    capabilities: {
-      tools: {},
-      prompts: {},
-    },
-  }
-);
-
-const BASE_URL = 'https://oss.open-digger.cn/';
-const DEFAULT_TTL_SECONDS = Number(process.env.CACHE_TTL_SECONDS || 300);
-const BATCH_SIZE = 5;
+import { handleMcpRequest, getSessionStats, closeAllSessions } from './sessions.js';
+import { clientRateLimiter, getRateLimitStats, batchUnits, mcpRequestUnits } from './ratelimit.js';
+import { authenticate, auditLog, getAuthStats, isAuthEnabled, isOriginAllowed, isToolAllowed, loadApiKeys, getAllowedOrigins, getApiKeysFile, type ApiClient, type AuditEntry } from './auth.js';
+import { getDataSource } from './datasource.js';
+import { getUpstreamStats, UpstreamError } from './resilience.js';
+import { getSchedulerStats } from './scheduler.js';
+import { SERVER_CONFIG } from './config.js';
+import { generateComparisonAnalysis, processTrendData, extractLatestValue, extractSeries, periodBounds, generateErrorSuggestions, calculateHealthScoreBreakdown } from './analysis.js';
+import { forecastSeries } from './forecast.js';
+import { detectAnomalies } from './anomalies.js';
+import { correlateSeries } from './correlation.js';
+import { analyzeNetwork, exportEdgeList } from './network.js';
+import { parseMetric, USER_METRICS, type UserMetric } from './metrics.js';
+import { analyzeCohorts, type CohortInputs } from './cohorts.js';
+import { assessSustainabilityRisk, type RiskInputs } from './risk.js';
+import { getScoringProfile, listScoringProfiles, loadScoringProfiles, getScoringProfilesFile, type HealthScoreMetric } from './scoring.js';
+import { benchmarkRepository } from './benchmark.js';
+import { compareDevelopers, buildDeveloperProfile, PROFILE_SECTIONS } from './developers.js';
+import { loadEcosystemRepositories, normalizeRepositories, summarizeEcosystem, getEcosystemDefinitionsFile } from './ecosystem.js';
+
+
+const DEFAULT_TTL_SECONDS = SERVER_CONFIG.cacheTtlSeconds;
+const BATCH_SIZE = SERVER_CONFIG.batchSize;
+const MAX_ECOSYSTEM_REPOSITORIES = 200;
+
+// Metrics fetched when the caller names none, and the fixed inputs of the composite reports
+const COMPARE_METRICS = ['openrank', 'stars', 'contributors'] as const;
+const BENCHMARK_METRICS = ['openrank', 'activity', 'stars', 'contributors', 'participants'] as const;
+const DEVELOPER_METRICS = ['openrank', 'activity'] as const;
+const ECOSYSTEM_METRICS = ['openrank', 'activity', 'stars', 'contributors'] as const;
+const COHORT_SOURCES = ['contributors', 'new_contributors', 'new_contributors_detail', 'inactive_contributors', 'activity_details'] as const;
+const RISK_SOURCES = ['bus_factor', 'maintainer_count', 'inactive_contributors', 'contributors', 'issue_response_time', 'releases'] as const;
 
 
 
-function buildUrl(args: z.infer<typeof inputSchema>): string {
+/**
+ * Builds the metric path relative to the data source root (`platform/owner/repo/metric.json`).
+ */
+function buildMetricPath(args: z.infer<typeof inputSchema>): string {
   const platform = args.platform.toString().toLowerCase();
   if (args.entityType === 'Repo') {
     if (!args.owner || !args.repo) throw new Error('Missing required fields: owner, repo');
-    return `${BASE_URL}${platform}/${args.owner}/${args.repo}/${args.metricName}.json`;
+    return `${platform}/${args.owner}/${args.repo}/${args.metricName}.json`;
   }
   if (!args.login) throw new Error('Missing required field: login');
-  return `${BASE_URL}${platform}/${args.login}/${args.metricName}.json`;
+  return `${platform}/${args.login}/${args.metricName}.json`;
+}
+
+/**
+ * Condenses the provenance of many fetches; one record per fetch would dwarf multi-repository results.
+ */
+function summarizeProvenance(provenances: Provenance[]) {
+  return {
+    sourceType: getDataSource().type,
+    fetches: provenances.length,
+    cacheStatus: provenances.reduce<Record<string, number>>((counts, entry) => {
+      counts[entry.cacheStatus] = (counts[entry.cacheStatus] ?? 0) + 1;
+      return counts;
+    }, {}),
+    staleEntries: provenances.filter(entry => entry.freshness.state === 'stale').length,
+    oldestRetrievedAt: provenances.map(entry => entry.retrievedAt).sort()[0] ?? null
+  };
+}
+
+type MetricEntity =
+  | { entityType: 'Repo'; owner: string; repo: string }
+  | { entityType: 'User'; login: string };
+
+interface FetchedMetrics {
+  /** Fetched metric files, keyed by metric name. */
+  data: Record<string, unknown>;
+  sources: Array<{ metric: string; provenance: Provenance }>;
+  failures: Array<{ metric: string; error: string }>;
+}
+
+/**
+ * Fetches several metrics of one repository or developer. Metrics that fail are reported in
+ * `failures` rather than failing the call.
+ *
+ * @param options.allowEmpty - Return an empty result instead of throwing when every metric fails,
+ *   for callers that fetch many entities and tolerate some of them missing.
+ * @throws Error with the first failure if no metric could be fetched.
+ */
+async function fetchMetrics(
+  platform: z.infer<typeof inputSchema>['platform'],
+  entity: MetricEntity,
+  metrics: ReadonlyArray<z.infer<typeof inputSchema>['metricName']>,
+  options: { allowEmpty?: boolean } = {}
+): Promise<FetchedMetrics> {
+  const fetched = await Promise.all(metrics.map(async (metric) => {
+    try {
+      const metricPath = buildMetricPath({ platform, ...entity, metricName: metric });
+      const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
+      return { metric, data, provenance, success: true as const };
+    } catch (error) {
+      return { metric, error: (error as Error).message, success: false as const };
+    }
+  }));
+
+  const result: FetchedMetrics = { data: {}, sources: [], failures: [] };
+  fetched.forEach(entry => {
+    if (entry.success) {
+      result.data[entry.metric] = entry.data;
+      result.sources.push({ metric: entry.metric, provenance: entry.provenance });
+    } else {
+      result.failures.push({ metric: entry.metric, error: entry.error });
+    }
+  });
+  if (result.sources.length === 0 && result.failures.length > 0 && !options.allowEmpty) {
+    const label = entity.entityType === 'Repo' ? `${entity.owner}/${entity.repo}` : `developer ${entity.login}`;
+    throw new Error(`No metrics available for ${label}: ${result.failures[0]!.error}`);
+  }
+  return result;
 }
 
 
@@ -100,10 +208,17 @@ const inputSchema = z.object({
     'inactive_contributors',
     'pull_requests_merged',
     'issue_response_time',
+    'issue_resolution_duration',
+    'change_request_response_time',
+    'change_request_resolution_duration',
     'maintainer_count',
     'code_change_lines',
     'community_activity',
-    'developer_network'
+    'developer_network',
+    'repo_network',
+    'new_contributors',
+    'new_contributors_detail',
+    'activity_details'
   ]).describe('The metric name to get the data.'),
 });
 
@@ -112,6 +227,9 @@ const batchInputSchema = z.object({
   requests: z.array(inputSchema).min(1).max(20).describe('Batch of up to 20 requests'),
 }).describe('Batch request payload for fetching multiple metrics in one call');
 
+const seriesStatisticSchema = z.enum(['avg', 'min', 'p25', 'median', 'p75', 'max']).optional()
+  .describe('Value read from duration metrics such as issue_response_time (default: median)');
+
 const compareReposSchema = z.object({
   repositories: z.array(z.object({
     platform: z.enum(['GitHub', 'Gitee']),
@@ -121,25 +239,170 @@ const compareReposSchema = z.object({
   metrics: z.array(z.enum([
     'openrank', 'stars', 'forks', 'participants', 'contributors',
     'issues_new', 'issues_closed', 'pull_requests', 'commits',
-    'technical_fork', 'bus_factor', 'releases'
-  ])).optional().describe('Metrics to compare (default: openrank, stars, contributors)')
+    'technical_fork', 'bus_factor', 'releases',
+    'issue_response_time', 'issue_resolution_duration', 'change_request_response_time', 'change_request_resolution_duration'
+  ])).optional().describe('Metrics to compare (default: openrank, stars, contributors)'),
+  granularity: z.enum(['monthly', 'quarterly', 'yearly']).optional().describe('Period used for the latest value (default: monthly)'),
+  raw: z.boolean().optional().describe('Compare unsmoothed "-raw" values instead of smoothed ones (default: false)'),
+  statistic: seriesStatisticSchema,
+  mode: z.enum(['latest', 'growth', 'age', 'per_contributor']).optional()
+    .describe('latest: latest values; growth: % change over the same calendar window; age: values N periods after each project\'s first data point; per_contributor: latest values divided by contributors (default: latest)'),
+  window: z.number().int().min(1).max(60).optional().describe('Periods per growth window in growth mode (default: one year, shortened to fit the youngest repository)'),
+  age: z.number().int().min(1).max(240).optional().describe('Project age in periods for age mode (default: age of the youngest repository)'),
+  profile: z.string().optional().describe('Also score each repository on the absolute health scale with this scoring profile (see list_scoring_profiles)')
 });
 
 const trendAnalysisSchema = z.object({
+  platform: z.enum(['GitHub', 'Gitee']),
+  entityType: z.enum(['Repo', 'User']),
+  owner: z.string().optional(),
+  repo: z.string().optional(),
+  login: z.string().optional(),
+  metricName: z.enum([
+    'openrank', 'stars', 'forks', 'contributors', 'participants',
+    'issue_response_time', 'issue_resolution_duration', 'change_request_response_time', 'change_request_resolution_duration'
+  ]),
+  timeRange: z.enum(['6m', '1y', '2y', '3y']).optional().describe('Time range for trend analysis, ending at the latest data point (default: 1y)'),
+  granularity: z.enum(['monthly', 'quarterly', 'yearly']).optional().describe('Series granularity; quarters/years are re-aggregated from months when missing, summing counts and averaging gauges and durations (default: monthly)'),
+  raw: z.boolean().optional().describe('Analyze unsmoothed "-raw" values instead of smoothed ones (default: false)'),
+  statistic: seriesStatisticSchema,
+  startDate: z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM').optional().describe('Start month (YYYY-MM, inclusive); overrides timeRange, and defaults to the first data point when only endDate is given'),
+  endDate: z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM').optional().describe('End month (YYYY-MM, inclusive); overrides timeRange, and defaults to the latest data point when only startDate is given')
+}).refine(args => !args.startDate || !args.endDate || args.startDate <= args.endDate, {
+  message: 'startDate must not be after endDate',
+  path: ['startDate']
+});
+
+const forecastSchema = z.object({
   platform: z.enum(['GitHub', 'Gitee']),
   entityType: z.enum(['Repo', 'User']),
   owner: z.string().optional(),
   repo: z.string().optional(),
   login: z.string().optional(),
   metricName: z.enum(['openrank', 'stars', 'forks', 'contributors', 'participants']),
-  timeRange: z.enum(['6m', '1y', '2y', '3y']).optional().describe('Time range for trend analysis')
+  horizon: z.number().int().min(1).max(24).optional().describe('Number of months to forecast (default: 6)'),
+  model: z.enum(['auto', 'linear', 'holt', 'holt_winters']).optional().describe('Forecast model; auto picks the lowest backtest error (default: auto)'),
+  confidenceLevel: z.union([z.literal(0.8), z.literal(0.9), z.literal(0.95), z.literal(0.99)]).optional().describe('Prediction interval coverage (default: 0.95)'),
+  startDate: z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM').optional().describe('Ignore history before this month (YYYY-MM), e.g. after a regime change')
+});
+
+const anomalySchema = z.object({
+  platform: z.enum(['GitHub', 'Gitee']),
+  entityType: z.enum(['Repo', 'User']),
+  owner: z.string().optional(),
+  repo: z.string().optional(),
+  login: z.string().optional(),
+  metricName: z.enum(['openrank', 'activity', 'stars', 'forks', 'contributors', 'participants', 'issues_new', 'issues_closed', 'pull_requests', 'commits']),
+  granularity: z.enum(['monthly', 'quarterly', 'yearly']).optional().describe('Series granularity (default: monthly)'),
+  raw: z.boolean().optional().describe('Scan unsmoothed "-raw" values instead of smoothed ones (default: false)'),
+  startDate: z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM').optional().describe('Start month (YYYY-MM, inclusive)'),
+  endDate: z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM').optional().describe('End month (YYYY-MM, inclusive)'),
+  threshold: z.number().min(1).max(20).optional().describe('Robust z-score above which a period is an outlier (default: 3.5)'),
+  maxChangePoints: z.number().int().min(0).max(20).optional().describe('Maximum number of change points to report (default: 5)')
+}).refine(args => !args.startDate || !args.endDate || args.startDate <= args.endDate, {
+  message: 'startDate must not be after endDate',
+  path: ['startDate']
+});
+
+const correlationSchema = z.object({
+  repositories: z.array(z.object({
+    platform: z.enum(['GitHub', 'Gitee']),
+    owner: z.string(),
+    repo: z.string()
+  })).min(1).max(5).describe('1-5 repositories; use one repository with several metrics, or one metric across repositories'),
+  metrics: z.array(z.enum([
+    'openrank', 'activity', 'stars', 'forks', 'participants', 'contributors',
+    'issues_new', 'issues_closed', 'issue_comments', 'pull_requests', 'pull_requests_accepted', 'commits'
+  ])).min(1).max(5).describe('Metrics to correlate'),
+  raw: z.boolean().optional().describe('Correlate unsmoothed "-raw" values instead of smoothed ones (default: false)'),
+  startDate: z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM').optional().describe('Start month (YYYY-MM, inclusive)'),
+  endDate: z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM').optional().describe('End month (YYYY-MM, inclusive)'),
+  maxLag: z.number().int().min(0).max(12).optional().describe('Largest lead/lag in months to test in each direction (default: 6)')
+}).refine(args => args.repositories.length * args.metrics.length >= 2, {
+  message: 'Provide at least two series: several metrics for one repository or one metric for several repositories',
+  path: ['metrics']
+}).refine(args => args.repositories.length * args.metrics.length <= 10, {
+  message: 'At most 10 series (repositories x metrics) can be correlated at once',
+  path: ['metrics']
+});
+
+const networkSchema = z.object({
+  platform: z.enum(['GitHub', 'Gitee']),
+  entityType: z.enum(['Repo', 'User']),
+  owner: z.string().optional(),
+  repo: z.string().optional(),
+  login: z.string().optional(),
+  network: z.enum(['developer_network', 'repo_network']).describe('Collaboration network of developers, or of related repositories'),
+  limit: z.number().int().min(1).max(100).optional().describe('Number of neighbours, nodes and bridges to return (default: 10)'),
+  export: z.enum(['json', 'csv']).optional().describe('Also return the full edge list in this format')
+});
+
+const cohortSchema = z.object({
+  platform: z.enum(['GitHub', 'Gitee']),
+  owner: z.string(),
+  repo: z.string(),
+  months: z.number().int().min(1).max(120).optional().describe('Number of most recent monthly cohorts to report (default: 24)')
+});
+
+const riskSchema = z.object({
+  platform: z.enum(['GitHub', 'Gitee']),
+  owner: z.string(),
+  repo: z.string()
+});
+
+const healthScoreSchema = z.object({
+  platform: z.enum(['GitHub', 'Gitee']),
+  owner: z.string(),
+  repo: z.string(),
+  profile: z.string().optional().describe('Scoring profile to use (see list_scoring_profiles; default: the configured default profile)'),
+  missingMetrics: z.enum(['renormalize', 'zero']).optional().describe('Rescale the weights of available metrics, or score missing metrics as 0 (default: renormalize)'),
+  granularity: z.enum(['monthly', 'quarterly', 'yearly']).optional().describe('Period used for the latest value (default: monthly)'),
+  raw: z.boolean().optional().describe('Score unsmoothed "-raw" values instead of smoothed ones (default: false)')
+});
+
+const listProfilesSchema = z.object({});
+
+const benchmarkSchema = z.object({
+  platform: z.enum(['GitHub', 'Gitee']),
+  owner: z.string(),
+  repo: z.string(),
+  cohort: z.string().optional().describe('Name of a cohort in the ECOSYSTEM_DEFINITIONS_FILE "cohort" section'),
+  repositories: z.array(z.string()).min(1).max(MAX_ECOSYSTEM_REPOSITORIES).optional()
+    .describe('Peer repositories ("owner/repo"); takes precedence over cohort'),
+  metrics: z.array(z.enum([
+    'openrank', 'activity', 'stars', 'forks', 'participants', 'contributors',
+    'issues_new', 'issues_closed', 'pull_requests', 'commits', 'bus_factor', 'releases',
+    'issue_response_time', 'issue_resolution_duration', 'change_request_response_time', 'change_request_resolution_duration'
+  ])).min(1).max(8).optional().describe('Metrics to benchmark (default: openrank, activity, stars, contributors, participants)'),
+  raw: z.boolean().optional().describe('Use raw values instead of smoothed ones'),
+  statistic: seriesStatisticSchema
+});
+
+const compareDevelopersSchema = z.object({
+  platform: z.enum(['GitHub', 'Gitee']),
+  logins: z.array(z.string()).min(2).max(10).describe('2-10 developer logins to compare'),
+  metrics: z.array(z.enum(['openrank', 'activity'])).min(1).optional().describe('Metrics to compare (default: openrank, activity)'),
+  timeRange: z.enum(['6m', '1y', '2y', '3y']).optional().describe('Window of the trend of each developer, ending at the latest data point (default: 1y)')
+});
+
+const developerProfileSchema = z.object({
+  platform: z.enum(['GitHub', 'Gitee']),
+  login: z.string(),
+  timeRange: z.enum(['6m', '1y', '2y', '3y']).optional().describe('Window of the trends, ending at the latest data point (default: 1y)'),
+  limit: z.number().int().min(1).max(20).optional().describe('Number of collaborators and repositories listed (default: 5)')
 });
 
 const ecosystemInsightsSchema = z.object({
   platform: z.enum(['GitHub', 'Gitee']),
   category: z.enum(['language', 'topic', 'organization']).describe('Type of ecosystem analysis'),
   value: z.string().describe('Language name, topic, or organization to analyze'),
-  limit: z.number().optional().describe('Number of top results to return (default: 10)')
+  repositories: z.array(z.string()).min(1).max(MAX_ECOSYSTEM_REPOSITORIES).optional()
+    .describe('Repositories ("owner/repo", or bare names for an organization); defaults to the ECOSYSTEM_DEFINITIONS_FILE entry'),
+  metrics: z.array(z.enum([
+    'openrank', 'activity', 'stars', 'forks', 'participants', 'contributors',
+    'issues_new', 'issues_closed', 'pull_requests', 'commits'
+  ])).min(1).max(6).optional().describe('Metrics to aggregate (default: openrank, activity, stars, contributors)'),
+  limit: z.number().int().min(1).max(50).optional().describe('Number of top results to return (default: 10)')
 });
 
 const healthCheckSchema = z.object({
@@ -149,7 +412,7 @@ const healthCheckSchema = z.object({
 
 
 // Tools list
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
+const listTools = async () => ({
   tools: [
     {
       name: 'get_open_digger_metric',
@@ -163,7 +426,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     },
     {
       name: 'compare_repositories',
-      description: 'Compare multiple repositories across key metrics with intelligent analysis',
+      description: 'Compare multiple repositories across key metrics by latest value, growth over the same window, equal project age, or per contributor',
       inputSchema: zodToJsonSchema(compareReposSchema),
     },
     {
@@ -171,9 +434,64 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       description: 'Perform comprehensive trend analysis on metrics over time',
       inputSchema: zodToJsonSchema(trendAnalysisSchema),
     },
+    {
+      name: 'forecast_metric',
+      description: 'Forecast a metric N months ahead (linear, Holt, Holt-Winters) with confidence intervals and a backtest error score',
+      inputSchema: zodToJsonSchema(forecastSchema),
+    },
+    {
+      name: 'detect_anomalies',
+      description: 'Detect outlier periods (robust z-score / MAD) and structural change points in a metric series',
+      inputSchema: zodToJsonSchema(anomalySchema),
+    },
+    {
+      name: 'correlate_metrics',
+      description: 'Correlate monthly metric series (Pearson/Spearman) and find best-fit lead/lag relationships',
+      inputSchema: zodToJsonSchema(correlationSchema),
+    },
+    {
+      name: 'analyze_network',
+      description: 'Analyze a developer or repository network: top neighbours, weighted degree, communities and bridge nodes',
+      inputSchema: zodToJsonSchema(networkSchema),
+    },
+    {
+      name: 'contributor_cohorts',
+      description: 'Monthly contributor cohorts: new contributors, retention after 3/6/12 months, and churn over time',
+      inputSchema: zodToJsonSchema(cohortSchema),
+    },
+    {
+      name: 'assess_sustainability_risk',
+      description: 'Rate sustainability risk (bus factor, maintainers, inactive contributors, response time, releases) with evidence and trends',
+      inputSchema: zodToJsonSchema(riskSchema),
+    },
+    {
+      name: 'repo_health_score',
+      description: 'Absolute repository health score (0-100) with per-metric sub-scores, weights and contributions, comparable across calls',
+      inputSchema: zodToJsonSchema(healthScoreSchema),
+    },
+    {
+      name: 'list_scoring_profiles',
+      description: 'List the health-scoring profiles (metric weights and references) accepted by repo_health_score and compare_repositories',
+      inputSchema: zodToJsonSchema(listProfilesSchema),
+    },
+    {
+      name: 'benchmark_repository',
+      description: 'Percentile rank of a repository\'s metrics within a peer cohort, with cohort median/p90 and outlier metrics',
+      inputSchema: zodToJsonSchema(benchmarkSchema),
+    },
+    {
+      name: 'compare_developers',
+      description: 'Compare 2-10 developers on openrank and activity, with rankings and trends',
+      inputSchema: zodToJsonSchema(compareDevelopersSchema),
+    },
+    {
+      name: 'developer_profile',
+      description: 'Profile of a developer: openrank and activity trends, closest collaborators, main repositories, and which metrics exist',
+      inputSchema: zodToJsonSchema(developerProfileSchema),
+    },
     {
       name: 'get_ecosystem_insights',
-      description: 'Get ecosystem-level insights for languages, topics, or organizations',
+      description: 'Aggregate metrics across an organization, topic or language: totals, top repositories, concentration and growth leaders',
       inputSchema: zodToJsonSchema(ecosystemInsightsSchema),
     },
     {
@@ -182,20 +500,99 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       inputSchema: zodToJsonSchema(healthCheckSchema),
     }
   ],
-}));
+});
+
+
+/**
+ * Metrics compare_repositories fetches: the ranked ones, the ones the profile weighs, and
+ * contributors for per-contributor values.
+ */
+function comparedMetrics(args: z.infer<typeof compareReposSchema>) {
+  const profile = args.profile !== undefined ? getScoringProfile(args.profile) : undefined;
+  return [...new Set([
+    ...(args.metrics || COMPARE_METRICS),
+    ...(profile ? Object.keys(profile.metrics) as HealthScoreMetric[] : []),
+    ...(args.mode === 'per_contributor' ? ['contributors' as const] : [])
+  ])];
+}
 
+/**
+ * Number of metric files a tool call fetches, worked out from its arguments the way the tool
+ * handler does. Calls that fetch nothing or fail validation count as one, so that every call is
+ * charged; the handler reports the validation error.
+ *
+ * @param name - Tool name.
+ * @param toolArguments - Raw arguments of the call.
+ */
+async function toolCallUnits(name: string, toolArguments: unknown): Promise<number> {
+  const parse = <T extends z.ZodTypeAny>(schema: T): z.infer<T> | undefined => {
+    const result = schema.safeParse(toolArguments ?? {});
+    return result.success ? result.data : undefined;
+  };
 
-server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
   try {
-    if (!request.params.arguments) {
-      throw new Error("Arguments are required");
+    switch (name) {
+      case 'get_open_digger_metrics_batch':
+        return batchUnits(parse(batchInputSchema)?.requests);
+      case 'compare_repositories': {
+        const args = parse(compareReposSchema);
+        return args ? args.repositories.length * comparedMetrics(args).length : 1;
+      }
+      case 'correlate_metrics': {
+        const args = parse(correlationSchema);
+        return args ? args.repositories.length * args.metrics.length : 1;
+      }
+      case 'contributor_cohorts':
+        return COHORT_SOURCES.length;
+      case 'assess_sustainability_risk':
+        return RISK_SOURCES.length;
+      case 'repo_health_score': {
+        const args = parse(healthScoreSchema);
+        return args ? Object.keys(getScoringProfile(args.profile).metrics).length : 1;
+      }
+      case 'benchmark_repository': {
+        const args = parse(benchmarkSchema);
+        if (!args) return 1;
+        const listed = args.repositories ?? (args.cohort !== undefined ? await loadEcosystemRepositories('cohort', args.cohort) : undefined);
+        const target = `${args.owner}/${args.repo}`.toLowerCase();
+        const peers = normalizeRepositories('cohort', args.cohort ?? '', listed ?? [])
+          .filter(repository => repository.toLowerCase() !== target)
+          .slice(0, MAX_ECOSYSTEM_REPOSITORIES);
+        return (1 + peers.length) * (args.metrics || BENCHMARK_METRICS).length;
+      }
+      case 'compare_developers': {
+        const args = parse(compareDevelopersSchema);
+        return args ? new Set(args.logins.map(login => login.trim())).size * (args.metrics || DEVELOPER_METRICS).length : 1;
+      }
+      case 'developer_profile':
+        return USER_METRICS.length;
+      case 'get_ecosystem_insights': {
+        const args = parse(ecosystemInsightsSchema);
+        if (!args) return 1;
+        const listed = args.repositories ?? await loadEcosystemRepositories(args.category, args.value);
+        const repositories = normalizeRepositories(args.category, args.value, listed ?? []).slice(0, MAX_ECOSYSTEM_REPOSITORIES);
+        return Math.max(1, repositories.length * (args.metrics || ECOSYSTEM_METRICS).length);
+      }
+      default:
+        return 1;
     }
+  } catch {
+    // Unknown profiles, unreadable definitions and invalid names fail the call itself
+    return 1;
+  }
+}
+
+
+const callTool = async (request: any) => {
+  try {
+    // Tools whose arguments are all optional (list_scoring_profiles, server_health) may be called without any
+    const toolArguments = request.params.arguments ?? {};
 
     switch (request.params.name) {
       case 'get_open_digger_metric': {
-        const args = inputSchema.parse(request.params.arguments);
-        const url = buildUrl(args);
-        const data = await fetchWithCache(url, DEFAULT_TTL_SECONDS);
+        const args = inputSchema.parse(toolArguments);
+        const metricPath = buildMetricPath(args);
+        const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
         
         return { 
           content: [{ 
@@ -207,7 +604,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
                 entity: `${args.owner || args.login}${args.repo ? '/' + args.repo : ''}`,
                 platform: args.platform,
                 timestamp: new Date().toISOString(),
-                cached: true // Will be determined by fetchWithCache
+                provenance
               }
             }, null, 2) 
           }] 
@@ -215,7 +612,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       }
 
       case 'get_open_digger_metrics_batch': {
-        const args = batchInputSchema.parse(request.params.arguments);
+        const args = batchInputSchema.parse(toolArguments);
+        const startTime = performance.now();
         const results = [];
         
         // Process in batches to respect API limits
@@ -228,9 +626,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
           const chunk = args.requests.slice(i, i + BATCH_SIZE);
           const chunkResults = await Promise.all(chunk.map(async (r: z.infer<typeof inputSchema>) => {
             try {
-              const url = buildUrl(r);
-              const data = await fetchWithCache(url, DEFAULT_TTL_SECONDS);
-              return { ok: true, request: r, data };
+              const metricPath = buildMetricPath(r);
+              const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
+              return { ok: true, request: r, data, provenance };
             } catch (err) {
               return { ok: false, request: r, error: (err as Error).message };
             }
@@ -248,7 +646,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
                 total: args.requests.length,
                 successful: results.filter(r => r.ok).length,
                 failed: results.filter(r => !r.ok).length,
-                processingTime: Date.now()
+                processingTimeMs: Number((performance.now() - startTime).toFixed(2)),
+                timestamp: new Date().toISOString()
               }
             }, null, 2) 
           }] 
@@ -256,23 +655,25 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       }
 
       case 'compare_repositories': {
-        const args = compareReposSchema.parse(request.params.arguments);
-        const metrics = args.metrics || ['openrank', 'stars', 'contributors'];
+        const args = compareReposSchema.parse(toolArguments);
+        const metrics = args.metrics || [...COMPARE_METRICS];
+        const profile = args.profile !== undefined ? getScoringProfile(args.profile) : undefined;
+        const fetchedMetrics = comparedMetrics(args);
         
         const results = await Promise.all(
           args.repositories.map(async (repo) => {
             const repoMetrics = await Promise.all(
-              metrics.map(async (metric) => {
+              fetchedMetrics.map(async (metric) => {
                 try {
-                  const url = buildUrl({
+                  const metricPath = buildMetricPath({
                     platform: repo.platform,
                     entityType: 'Repo',
                     owner: repo.owner,
                     repo: repo.repo,
                     metricName: metric
                   });
-                  const data = await fetchWithCache(url, DEFAULT_TTL_SECONDS);
-                  return { metric, data, success: true };
+                  const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
+                  return { metric, data, provenance, success: true };
                 } catch (error) {
                   return { 
                     metric, 
@@ -291,7 +692,29 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
           })
         );
 
-        const analysis = generateComparisonAnalysis(results, metrics);
+        const analysis = generateComparisonAnalysis(results, metrics, {
+          granularity: args.granularity,
+          raw: args.raw,
+          statistic: args.statistic,
+          mode: args.mode,
+          window: args.window,
+          age: args.age
+        });
+        const profileScores = profile && {
+          profile: profile.name,
+          scores: Object.fromEntries(results.map(repo => {
+            const breakdown = calculateHealthScoreBreakdown(
+              Object.fromEntries(repo.metrics.flatMap(result => result.success ? [[result.metric, result.data]] : [])),
+              { granularity: args.granularity, raw: args.raw, model: profile.metrics }
+            );
+            return [repo.repository, {
+              score: breakdown.score,
+              coverage: breakdown.coverage,
+              missingMetrics: breakdown.missingMetrics,
+              contributions: Object.fromEntries(breakdown.components.map(component => [component.metric, component.contribution]))
+            }];
+          }))
+        };
         
         return { 
           content: [{ 
@@ -299,9 +722,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
             text: JSON.stringify({ 
               comparison: results, 
               analysis,
+              profileScores,
               metadata: {
                 repositoryCount: args.repositories.length,
                 metricsCompared: metrics,
+                mode: analysis.mode,
+                granularity: args.granularity || 'monthly',
+                valueType: args.raw ? 'raw' : 'smoothed',
                 timestamp: new Date().toISOString()
               }
             }, null, 2) 
@@ -310,11 +737,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       }
 
       case 'analyze_trends': {
-        const args = trendAnalysisSchema.parse(request.params.arguments);
-        const url = buildUrl(args);
-        const data = await fetchWithCache(url, DEFAULT_TTL_SECONDS);
+        const args = trendAnalysisSchema.parse(toolArguments);
+        const metricPath = buildMetricPath(args);
+        const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
         
-        const trendAnalysis = processTrendData(data, args.timeRange || '1y');
+        const trendAnalysis = processTrendData(data, args.timeRange || '1y', {
+          startDate: args.startDate,
+          endDate: args.endDate,
+          granularity: args.granularity,
+          raw: args.raw,
+          metric: args.metricName,
+          statistic: args.statistic
+        });
         
         return { 
           content: [{ 
@@ -326,43 +760,453 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
                 metric: args.metricName,
                 entity: `${args.owner || args.login}${args.repo ? '/' + args.repo : ''}`,
                 timeRange: args.timeRange || '1y',
+                window: trendAnalysis.window,
+                series: trendAnalysis.series,
                 platform: args.platform,
-                timestamp: new Date().toISOString()
+                timestamp: new Date().toISOString(),
+                provenance
               }
             }, null, 2) 
           }] 
         };
       }
 
+      case 'forecast_metric': {
+        const args = forecastSchema.parse(toolArguments);
+        const metricPath = buildMetricPath(args);
+        const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
+
+        const history = extractSeries(data, { metric: args.metricName }).points
+          .filter(point => !args.startDate || point.date.substring(0, 7) >= args.startDate);
+        const forecast = forecastSeries(history, {
+          model: args.model,
+          horizon: args.horizon ?? 6,
+          confidenceLevel: args.confidenceLevel
+        });
+        const trend = processTrendData(data, '3y', { metric: args.metricName });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              forecast,
+              trendContext: {
+                direction: trend.trend.direction,
+                momentum: trend.trend.momentum,
+                hasSeasonality: trend.patterns.hasSeasonality,
+                latestValue: trend.values.last
+              },
+              metadata: {
+                metric: args.metricName,
+                entity: `${args.owner || args.login}${args.repo ? '/' + args.repo : ''}`,
+                platform: args.platform,
+                timestamp: new Date().toISOString(),
+                provenance
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'detect_anomalies': {
+        const args = anomalySchema.parse(toolArguments);
+        const metricPath = buildMetricPath(args);
+        const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
+
+        const series = extractSeries(data, { granularity: args.granularity, raw: args.raw, metric: args.metricName });
+        // Keep periods that lie entirely inside the requested range, as analyze_trends does
+        const points = series.points.filter(point => {
+          const [periodStart, periodEnd] = periodBounds(point.date, series.info.granularity);
+          return (!args.startDate || periodStart >= args.startDate) && (!args.endDate || periodEnd <= args.endDate);
+        });
+        const report = detectAnomalies(points, {
+          threshold: args.threshold,
+          maxChangePoints: args.maxChangePoints
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              ...report,
+              metadata: {
+                metric: args.metricName,
+                entity: `${args.owner || args.login}${args.repo ? '/' + args.repo : ''}`,
+                platform: args.platform,
+                series: series.info,
+                range: points.length > 0 ? { start: points[0]!.date, end: points[points.length - 1]!.date } : null,
+                timestamp: new Date().toISOString(),
+                provenance
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'correlate_metrics': {
+        const args = correlationSchema.parse(toolArguments);
+        const singleRepo = args.repositories.length === 1;
+        const singleMetric = args.metrics.length === 1;
+
+        const fetched = await Promise.all(
+          args.repositories.flatMap(repo => args.metrics.map(async (metric) => {
+            const repository = `${repo.owner}/${repo.repo}`;
+            const label = singleRepo ? metric : singleMetric ? repository : `${repository}:${metric}`;
+            try {
+              const metricPath = buildMetricPath({
+                platform: repo.platform,
+                entityType: 'Repo',
+                owner: repo.owner,
+                repo: repo.repo,
+                metricName: metric
+              });
+              const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
+              const points = extractSeries(data, { raw: args.raw, metric }).points.filter(point =>
+                (!args.startDate || point.date >= args.startDate) && (!args.endDate || point.date <= args.endDate)
+              );
+              return { label, repository, metric, points, provenance, success: true as const };
+            } catch (error) {
+              return { label, repository, metric, error: (error as Error).message, success: false as const };
+            }
+          }))
+        );
+
+        const available = fetched.flatMap(series =>
+          series.success && series.points.length > 0 ? [{ label: series.label, points: series.points }] : []
+        );
+        const correlations = correlateSeries(available, { maxLag: args.maxLag });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              correlations,
+              series: fetched.map(series => series.success
+                ? { label: series.label, repository: series.repository, metric: series.metric, dataPoints: series.points.length, provenance: series.provenance }
+                : { label: series.label, repository: series.repository, metric: series.metric, error: series.error }),
+              metadata: {
+                seriesCount: available.length,
+                maxLag: args.maxLag ?? 6,
+                valueType: args.raw ? 'raw' : 'smoothed',
+                lagConvention: 'Positive lag: the first series leads the second by that many months',
+                timestamp: new Date().toISOString()
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'analyze_network': {
+        const args = networkSchema.parse(toolArguments);
+        const metricPath = buildMetricPath({ ...args, metricName: args.network });
+        const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
+
+        const graph = parseMetric(data, args.network);
+        if (graph?.shape !== 'graph') {
+          throw new Error(`${args.network} for this entity is not a network payload (found ${graph?.shape ?? 'no data'})`);
+        }
+        const entity = `${args.owner || args.login}${args.repo ? '/' + args.repo : ''}`;
+        const analysis = analyzeNetwork(graph, entity, args.limit || 10);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              ...analysis,
+              ...(args.export ? { edgeList: exportEdgeList(graph, args.export) } : {}),
+              metadata: {
+                network: args.network,
+                entity,
+                platform: args.platform,
+                timestamp: new Date().toISOString(),
+                provenance
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'contributor_cohorts': {
+        const args = cohortSchema.parse(toolArguments);
+        const fetched = await fetchMetrics(args.platform, { entityType: 'Repo', owner: args.owner, repo: args.repo }, COHORT_SOURCES);
+        const report = analyzeCohorts(fetched.data as CohortInputs, args.months || 24);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              ...report,
+              metadata: {
+                repository: `${args.owner}/${args.repo}`,
+                platform: args.platform,
+                sources: [...fetched.sources, ...fetched.failures],
+                timestamp: new Date().toISOString()
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'assess_sustainability_risk': {
+        const args = riskSchema.parse(toolArguments);
+        const fetched = await fetchMetrics(args.platform, { entityType: 'Repo', owner: args.owner, repo: args.repo }, RISK_SOURCES);
+        const report = assessSustainabilityRisk(fetched.data as RiskInputs);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              repository: `${args.owner}/${args.repo}`,
+              ...report,
+              metadata: {
+                platform: args.platform,
+                sources: [...fetched.sources, ...fetched.failures],
+                timestamp: new Date().toISOString()
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'repo_health_score': {
+        const args = healthScoreSchema.parse(toolArguments);
+        const profile = getScoringProfile(args.profile);
+        const sources = Object.keys(profile.metrics) as HealthScoreMetric[];
+
+        const fetched = await fetchMetrics(args.platform, { entityType: 'Repo', owner: args.owner, repo: args.repo }, sources);
+        const breakdown = calculateHealthScoreBreakdown(
+          fetched.data,
+          { granularity: args.granularity, raw: args.raw, missingPolicy: args.missingMetrics, model: profile.metrics }
+        );
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              repository: `${args.owner}/${args.repo}`,
+              profile: { name: profile.name, source: profile.source },
+              ...breakdown,
+              method: 'Each metric\'s latest value v is scored 100 * min(log10(v) / log10(reference), 1); the total is the weighted sum of these sub-scores',
+              metadata: {
+                platform: args.platform,
+                granularity: args.granularity || 'monthly',
+                sources: [...fetched.sources, ...fetched.failures],
+                timestamp: new Date().toISOString()
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'list_scoring_profiles': {
+        listProfilesSchema.parse(toolArguments);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              ...listScoringProfiles(),
+              metadata: {
+                timestamp: new Date().toISOString()
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'benchmark_repository': {
+        const args = benchmarkSchema.parse(toolArguments);
+        const metrics = args.metrics || [...BENCHMARK_METRICS];
+        const target = `${args.owner}/${args.repo}`;
+
+        const listed = args.repositories ?? (args.cohort !== undefined ? await loadEcosystemRepositories('cohort', args.cohort) : undefined);
+        if (!listed || listed.length === 0) {
+          const file = getEcosystemDefinitionsFile();
+          throw new Error(args.cohort === undefined
+            ? 'No cohort given; pass peer repositories in the repositories argument or name a cohort'
+            : file
+              ? `No cohort "${args.cohort}" defined in ${file}; pass the peers in the repositories argument`
+              : `No cohort "${args.cohort}" available; configure ECOSYSTEM_DEFINITIONS_FILE or pass the peers in the repositories argument`);
+        }
+        const peers = normalizeRepositories('cohort', args.cohort ?? '', listed)
+          .filter(repository => repository.toLowerCase() !== target.toLowerCase())
+          .slice(0, MAX_ECOSYSTEM_REPOSITORIES);
+
+        const fetchRepository = async (repository: string, allowEmpty: boolean) => {
+          const [owner, repo] = repository.split('/') as [string, string];
+          return { repository, fetched: await fetchMetrics(args.platform, { entityType: 'Repo', owner, repo }, metrics, { allowEmpty }) };
+        };
+        const [subject, ...members] = await Promise.all([
+          fetchRepository(target, false),
+          ...peers.map(peer => fetchRepository(peer, true))
+        ]);
+
+        const report = benchmarkRepository(subject!.fetched.data, members.map(member => member.fetched.data), metrics, { raw: args.raw, statistic: args.statistic });
+        const failures = [subject!, ...members].flatMap(member => member.fetched.failures.map(failure => ({ repository: member.repository, ...failure })));
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              repository: target,
+              cohort: {
+                name: args.repositories ? null : args.cohort,
+                source: args.repositories ? 'arguments' : 'definitions_file',
+                size: peers.length
+              },
+              ...report,
+              failures,
+              metadata: {
+                platform: args.platform,
+                metricsBenchmarked: metrics,
+                provenance: summarizeProvenance([subject!, ...members].flatMap(member => member.fetched.sources.map(source => source.provenance))),
+                timestamp: new Date().toISOString()
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'compare_developers': {
+        const args = compareDevelopersSchema.parse(toolArguments);
+        const metrics = args.metrics || [...DEVELOPER_METRICS];
+        const timeRange = args.timeRange || '1y';
+        const logins = [...new Set(args.logins.map(login => login.trim()))];
+        if (logins.length < 2) throw new Error('compare_developers needs at least two distinct logins');
+
+        const developers = await Promise.all(logins.map(async (login) => ({
+          login,
+          fetched: await fetchMetrics(args.platform, { entityType: 'User', login }, metrics, { allowEmpty: true })
+        })));
+        const failures = developers.flatMap(developer => developer.fetched.failures.map(failure => ({ login: developer.login, ...failure })));
+        if (failures.length === logins.length * metrics.length) {
+          throw new Error(`No developer metrics available: ${failures[0]!.error}`);
+        }
+
+        const comparison = compareDevelopers(
+          developers.map(developer => ({ login: developer.login, metrics: developer.fetched.data })),
+          metrics,
+          timeRange
+        );
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              ...comparison,
+              failures,
+              metadata: {
+                platform: args.platform,
+                developerCount: logins.length,
+                metricsCompared: metrics,
+                timeRange,
+                provenance: summarizeProvenance(developers.flatMap(developer => developer.fetched.sources.map(source => source.provenance))),
+                timestamp: new Date().toISOString()
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
+      case 'developer_profile': {
+        const args = developerProfileSchema.parse(toolArguments);
+        const timeRange = args.timeRange || '1y';
+
+        const fetched = await fetchMetrics(args.platform, { entityType: 'User', login: args.login }, USER_METRICS);
+        const profile = buildDeveloperProfile(
+          args.login,
+          fetched.data,
+          timeRange,
+          args.limit || 5
+        );
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              login: args.login,
+              availableMetrics: fetched.sources.map(source => source.metric),
+              // Not every developer has every metric published; say which part of the profile stays empty
+              missingMetrics: fetched.failures.map(failure => ({ ...failure, emptySection: PROFILE_SECTIONS[failure.metric as UserMetric] })),
+              ...profile,
+              metadata: {
+                platform: args.platform,
+                timeRange,
+                sources: fetched.sources,
+                timestamp: new Date().toISOString()
+              }
+            }, null, 2)
+          }]
+        };
+      }
+
       case 'get_ecosystem_insights': {
-        const args = ecosystemInsightsSchema.parse(request.params.arguments);
-        
-        // TODO: For now I've kept a placeholder for ecosystem insights - would need specialized endpoints
+        const args = ecosystemInsightsSchema.parse(toolArguments);
+        const metrics = args.metrics || [...ECOSYSTEM_METRICS];
+        const limit = args.limit || 10;
+
+        const defined = args.repositories ? undefined : await loadEcosystemRepositories(args.category, args.value);
+        const listed = args.repositories ?? defined;
+        if (!listed || listed.length === 0) {
+          const file = getEcosystemDefinitionsFile();
+          throw new Error(file
+            ? `No repositories defined for ${args.category} "${args.value}" in ${file}; pass them in the repositories argument`
+            : `No repositories given for ${args.category} "${args.value}"; pass them in the repositories argument or configure ECOSYSTEM_DEFINITIONS_FILE`);
+        }
+        const normalized = normalizeRepositories(args.category, args.value, listed);
+        const repositories = normalized.slice(0, MAX_ECOSYSTEM_REPOSITORIES);
+
+        const members = await Promise.all(repositories.map(async (repository) => {
+          const [owner, repo] = repository.split('/') as [string, string];
+          return { repository, fetched: await fetchMetrics(args.platform, { entityType: 'Repo', owner, repo }, metrics, { allowEmpty: true }) };
+        }));
+
+        const insights = summarizeEcosystem(
+          members.map(member => ({ repository: member.repository, metrics: member.fetched.data })),
+          metrics,
+          limit
+        );
+        const failures = members.flatMap(member => member.fetched.failures.map(failure => ({ repository: member.repository, ...failure })));
+        const provenance = summarizeProvenance(members.flatMap(member => member.fetched.sources.map(source => source.provenance)));
+
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
-              status: "ecosystem_insights_placeholder",
-              message: "Ecosystem insights feature requires specialized OpenDigger endpoints",
-              category: args.category,
-              value: args.value,
-              platform: args.platform,
-              limit: args.limit || 10,
-              suggestion: "Use compare_repositories for multi-repo analysis",
-              timestamp: new Date().toISOString()
+              ecosystem: {
+                category: args.category,
+                value: args.value,
+                platform: args.platform,
+                repositorySource: args.repositories ? 'arguments' : 'definitions_file',
+                repositoryCount: repositories.length,
+                truncated: normalized.length > repositories.length
+              },
+              ...insights,
+              failures,
+              metadata: {
+                metricsAggregated: metrics,
+                limit,
+                provenance,
+                timestamp: new Date().toISOString()
+              }
             }, null, 2)
           }]
         };
       }
 
       case 'server_health': {
-        const args = healthCheckSchema.parse(request.params.arguments);
+        const args = healthCheckSchema.parse(toolArguments);
         const health: any = {
           status: 'healthy',
           version: VERSION,
           uptime: process.uptime(),
           timestamp: new Date().toISOString(),
-          memory: process.memoryUsage()
+          memory: process.memoryUsage(),
+          dataSource: {
+            type: getDataSource().type,
+            location: getDataSource().location
+          },
+          upstream: getUpstreamStats(),
+          scheduler: getSchedulerStats()
         };
 
         if (args.includeCache) {
@@ -406,6 +1250,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
     }
     
     const message = error instanceof Error ? error.message : String(error);
+    const upstream = error instanceof UpstreamError ? error.details : undefined;
     return { 
       content: [{ 
         type: 'text', 
@@ -413,21 +1258,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
           error: message,
           context: {
             tool: request.params.name,
-            arguments: request.params.arguments
+            arguments: request.params.arguments,
+            upstream
           },
-          suggestions: generateErrorSuggestions(message),
+          suggestions: generateErrorSuggestions(message, upstream),
           timestamp: new Date().toISOString()
         }, null, 2) 
       }] 
     };
   }
-});
+};
 
 
 
 // Prompts ...
 // TODO: We can update and enhance the prompts further based on feedback  |  cc: @birdflyi, @frank-zsy
-server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+const listPrompts = async () => ({
   prompts: [
     {
       name: 'repo_health_analysis',
@@ -457,9 +1303,9 @@ server.setRequestHandler(ListPromptsRequestSchema, async () => ({
       ]
     }
   ]
-}));
+});
 
-server.setRequestHandler(GetPromptRequestSchema, async (request: any) => {
+const getPrompt = async (request: any) => {
   const { name, arguments: args } = request.params;
 
   switch (name) {
@@ -478,7 +1324,9 @@ server.setRequestHandler(GetPromptRequestSchema, async (request: any) => {
               1. Use the compare_repositories and analyze_trends tools to fetch comprehensive data
               2. Fetch metrics: openrank, stars, forks, contributors, participants, issues_new, pull_requests, commits
               3. Determine timeframe: ${timeframe === 'auto' ? 'auto-detect based on repo age (>3y: yearly, >1y: quarterly, else: monthly)' : timeframe}
-              4. Calculate health scores and identify trends
+                 and pass it as the granularity argument of analyze_trends and compare_repositories
+              4. Use the contributor_cohorts tool for contributor retention and churn
+              5. Calculate health scores and identify trends
 
             OUTPUT FORMAT:
               Create a beautiful HTML report with:
@@ -501,7 +1349,7 @@ server.setRequestHandler(GetPromptRequestSchema, async (request: any) => {
                 - Project momentum (based on recent activity trends)
                 - Maintenance health (based on issue resolution, PR acceptance)
                 - Popularity index (stars, forks growth rate)
-                - Developer satisfaction (contributor retention, activity patterns)
+                - Developer satisfaction (contributor retention from contributor_cohorts, activity patterns)
 
             Make the analysis practical and actionable for repository maintainers and potential contributors.`
           }
@@ -578,9 +1426,10 @@ server.setRequestHandler(GetPromptRequestSchema, async (request: any) => {
                             'Comprehensive developer profile'}
 
             DATA COLLECTION:
-              1. Use get_open_digger_metric for developer-specific metrics
-              2. Use analyze_trends to understand activity patterns over time
-              3. Gather metrics: openrank, activity, contributions, influence patterns
+              1. Use the developer_profile tool for openrank and activity trends, collaborators and repositories
+              2. Use analyze_trends (entityType: User) for a closer look at activity patterns over time
+              3. To place the developer among peers, use compare_developers with comparable logins
+              Note: OpenDigger publishes only ${USER_METRICS.join(', ')} for developers
 
             OUTPUT FORMAT:
               Generate a professional developer profile report with:
@@ -615,16 +1464,56 @@ server.setRequestHandler(GetPromptRequestSchema, async (request: any) => {
     default:
       throw new Error(`Prompt '${name}' not implemented`);
   }
-});
+};
 
 
+/**
+ * Creates an MCP server with all tools and prompts. A server serves one transport, so stdio and
+ * every Streamable HTTP session get their own instance.
+ *
+ * @param client - Authenticated HTTP client; only the tools its key allows are listed.
+ */
+function createServer(client: ApiClient | null = null): Server {
+  const server = new Server(
+    {
+      name: 'open-digger-mcp-server',
+      version: VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        prompts: {},
+      },
+    }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const { tools } = await listTools();
+    return { tools: tools.filter(tool => isToolAllowed(client, tool.name)) };
+  });
+  server.setRequestHandler(CallToolRequestSchema, callTool);
+  server.setRequestHandler(ListPromptsRequestSchema, listPrompts);
+  server.setRequestHandler(GetPromptRequestSchema, getPrompt);
+  return server;
+}
+
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("OpenDigger MCP Server running (on stdio)...");
-  // console.log("OpenDigger MCP Server running (on stdio)...");
+  const profileCount = loadScoringProfiles();
+  if (profileCount > 0) console.error(`Loaded ${profileCount} scoring profile(s) from ${getScoringProfilesFile()}`);
+  const keyCount = loadApiKeys((await listTools()).tools.map(tool => tool.name));
+  if (keyCount > 0) console.error(`Loaded ${keyCount} API key(s)${getApiKeysFile() ? ` (key file ${getApiKeysFile()})` : ''}`);
+
+  const transportMode = (process.env.MCP_TRANSPORT || 'stdio').toLowerCase();
+  if (transportMode !== 'stdio' && transportMode !== 'http') {
+    throw new Error(`Invalid MCP_TRANSPORT "${process.env.MCP_TRANSPORT}"; expected "stdio" or "http"`);
+  }
+
+  if (transportMode === 'stdio') {
+    const transport = new StdioServerTransport();
+    await createServer().connect(transport);
+    console.error("OpenDigger MCP Server running (on stdio)...");
+  }
 
-  const ssePortEnv = process.env.SSE_PORT;
+  const ssePortEnv = process.env.SSE_PORT || (transportMode === 'http' ? '3000' : undefined);
   if (ssePortEnv) {
     const ssePort = Number(ssePortEnv);
     const sseHost = process.env.SSE_HOST || '0.0.0.0';
@@ -639,10 +1528,24 @@ async function main() {
         const urlObj = new URL(req.url, `http://${req.headers.host}`);
         const pathname = urlObj.pathname;
 
-        // CORS headers
-        res.setHeader('Access-Control-Allow-Origin', '*');
-        res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+        // CORS headers: any origin, unless CORS_ALLOWED_ORIGINS restricts them
+        const origin = req.headers.origin;
+        if (!isOriginAllowed(origin)) {
+          auditLog({ client: null, ip: req.socket.remoteAddress, method: req.method, path: pathname, status: 403, detail: `origin ${origin} not allowed` });
+          res.statusCode = 403;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ error: 'Forbidden', message: `Origin ${origin} is not allowed` }));
+          return;
+        }
+        if (getAllowedOrigins()) {
+          if (origin) res.setHeader('Access-Control-Allow-Origin', origin);
+          res.setHeader('Vary', 'Origin');
+        } else {
+          res.setHeader('Access-Control-Allow-Origin', '*');
+        }
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+        res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
         
         if (req.method === 'OPTIONS') {
           res.statusCode = 204;
@@ -650,6 +1553,57 @@ async function main() {
           return;
         }
 
+        const auth = authenticate(req);
+        const audit: AuditEntry = {
+          client: auth.ok ? auth.client?.name ?? null : null,
+          ip: req.socket.remoteAddress,
+          method: req.method,
+          path: pathname,
+          status: 0
+        };
+        if (isAuthEnabled()) res.on('finish', () => auditLog({ ...audit, status: res.statusCode }));
+
+        if (!auth.ok) {
+          audit.detail = auth.reason === 'missing' ? 'missing API key' : 'invalid API key';
+          res.statusCode = 401;
+          res.setHeader('WWW-Authenticate', 'Bearer realm="open-digger-mcp"');
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ error: 'Unauthorized', message: 'Send a valid API key as "Authorization: Bearer <key>" or "X-API-Key: <key>"' }));
+          return;
+        }
+        const client = auth.client;
+
+        // Rate limits and quotas apply per API key, or per IP address without authentication
+        const rateLimitKey = client ? `key:${client.name}` : `ip:${req.socket.remoteAddress ?? 'unknown'}`;
+        const admit = (units: number): boolean => {
+          const limit = clientRateLimiter.consume(rateLimitKey, units);
+          if (limit.ok) return true;
+          audit.detail = limit.reason === 'quota' ? 'daily quota exhausted' : limit.reason === 'rate' ? 'rate limited' : 'request above daily quota';
+          res.statusCode = 429;
+          res.setHeader('Content-Type', 'application/json');
+          if (limit.reason === 'too_large') {
+            // Waiting does not make the request affordable, so there is no Retry-After
+            res.end(JSON.stringify({ error: 'Too Many Requests', message: limit.message }));
+            return false;
+          }
+          res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+          res.end(JSON.stringify({ error: 'Too Many Requests', message: limit.message, retryAfterSeconds: limit.retryAfterSeconds }));
+          return false;
+        };
+
+        // The SSE routes are the HTTP counterparts of the single and batch metric tools
+        const sseTool = pathname === '/sse' ? 'get_open_digger_metric' : pathname === '/sse/batch' ? 'get_open_digger_metrics_batch' : undefined;
+        if (sseTool) {
+          audit.tools = [sseTool];
+          if (!isToolAllowed(client, sseTool)) {
+            audit.detail = `tool not allowed for key: ${sseTool}`;
+            res.statusCode = 403;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: 'Forbidden', message: `API key "${client?.name}" is not allowed to call ${sseTool}` }));
+            return;
+          }
+        }
+
         if (pathname === '/health') {
           res.statusCode = 200;
           res.setHeader('Content-Type', 'application/json');
@@ -657,17 +1611,36 @@ async function main() {
             status: 'ok', 
             version: VERSION,
             uptime: process.uptime(),
-            cache: getCacheStats()
+            dataSource: {
+              type: getDataSource().type,
+              location: getDataSource().location
+            },
+            upstream: getUpstreamStats(),
+            scheduler: getSchedulerStats(),
+            cache: getCacheStats(),
+            sessions: getSessionStats(),
+            auth: getAuthStats(),
+            rateLimit: getRateLimitStats(rateLimitKey)
           }));
           return;
         }
 
+        if (pathname === '/mcp') {
+          if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+            res.statusCode = 405;
+            res.setHeader('Allow', 'GET, POST, DELETE');
+            res.end('Method Not Allowed');
+            return;
+          }
+          await handleMcpRequest(req, res, createServer, { client, audit, admit: async body => admit(await mcpRequestUnits(body, toolCallUnits)) });
+          return;
+        }
+
         function startSse() {
           res.writeHead(200, {
             'Content-Type': 'text/event-stream',
             'Cache-Control': 'no-cache, no-transform',
-            'Connection': 'keep-alive',
-            'Access-Control-Allow-Origin': '*'
+            'Connection': 'keep-alive'
           });
           res.write(`event: start\n`);
           res.write(`data: {"status":"connected","timestamp":"${new Date().toISOString()}"}\n\n`);
@@ -690,6 +1663,7 @@ async function main() {
             res.end('Method Not Allowed');
             return;
           }
+          if (!admit(1)) return;
           startSse();
           try {
             const query = urlObj.searchParams;
@@ -701,9 +1675,9 @@ async function main() {
               login: query.get('login') || undefined,
               metricName: query.get('metricName'),
             });
-            const url = buildUrl(singleArgs);
-            const data = await fetchWithCache(url, DEFAULT_TTL_SECONDS);
-            sendEvent('data', { request: singleArgs, data });
+            const metricPath = buildMetricPath(singleArgs);
+            const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
+            sendEvent('data', { request: singleArgs, data, provenance });
             endSse();
           } catch (err) {
             sendEvent('error', { error: (err as Error).message });
@@ -718,6 +1692,13 @@ async function main() {
             res.end('Method Not Allowed!');
             return;
           }
+          let requested: unknown;
+          try {
+            requested = JSON.parse(urlObj.searchParams.get('requests') ?? '');
+          } catch {
+            // Reported on the stream below
+          }
+          if (!admit(batchUnits(requested))) return;
           startSse();
           try {
             const raw = urlObj.searchParams.get('requests');
@@ -735,9 +1716,9 @@ async function main() {
             for (let i = 0; i < args.requests.length; i++) {
               const r = args.requests[i]!;
               try {
-                const url = buildUrl(r);
-                const data = await fetchWithCache(url, DEFAULT_TTL_SECONDS);
-                sendEvent('data', { index: i, ok: true, request: r, data });
+                const metricPath = buildMetricPath(r);
+                const { data, provenance } = await fetchWithCache(metricPath, DEFAULT_TTL_SECONDS);
+                sendEvent('data', { index: i, ok: true, request: r, data, provenance });
               } catch (e) {
                 sendEvent('data', { index: i, ok: false, request: r, error: (e as Error).message });
               }
@@ -764,8 +1745,16 @@ async function main() {
     });
 
     serverHttp.listen(ssePort, sseHost, () => {
-      console.log(`SSE HTTP server listening on http://${sseHost}:${ssePort}`);
+      console.error(`HTTP server listening on http://${sseHost}:${ssePort} (MCP endpoint: /mcp)`);
+      if (!isAuthEnabled()) console.error('Warning: no API keys configured (MCP_API_KEYS, MCP_API_KEYS_FILE); the HTTP server accepts unauthenticated requests');
     });
+
+    const shutdown = () => {
+      serverHttp.close();
+      closeAllSessions().finally(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
   }
 }
 
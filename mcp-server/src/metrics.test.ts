@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { detectShape, getMetricDescriptor, parseMetric, toScalarPeriods } from './metrics.js';
+
+describe('detectShape', () => {
+  it('recognizes the four OpenDigger payload families', () => {
+    expect(detectShape({ '2024-01': 1, '2024Q1': 3 })).toBe('scalar_series');
+    expect(detectShape({ avg: { '2024-01': 2 }, quantile_2: { '2024-01': 1 } })).toBe('quantile_series');
+    expect(detectShape({ '2024-01': [['alice', 3]] })).toBe('detail_list');
+    expect(detectShape({ nodes: [], edges: [] })).toBe('graph');
+    expect(detectShape([1, 2])).toBeUndefined();
+  });
+});
+
+describe('toScalarPeriods', () => {
+  const responseTime = { avg: { '2024-01': 5 }, quantile_0: { '2024-01': 1 }, quantile_2: { '2024-01': 3 }, quantile_4: { '2024-01': 9 } };
+
+  it('reads the default statistic of quantile series and honors overrides', () => {
+    const parsed = parseMetric(responseTime, 'issue_response_time')!;
+    const descriptor = getMetricDescriptor('issue_response_time');
+    expect(toScalarPeriods(parsed, descriptor)).toEqual({ periods: { '2024-01': 3 }, statistic: 'median' });
+    expect(toScalarPeriods(parsed, descriptor, 'max')).toEqual({ periods: { '2024-01': 9 }, statistic: 'max' });
+    expect(toScalarPeriods(parsed, descriptor, 'p75')).toEqual({ periods: { '2024-01': 5 }, statistic: 'avg' });
+  });
+
+  it('counts or sums detail lists as the registry prescribes', () => {
+    const busFactor = parseMetric({ '2024-01': [['alice', 10], ['bob', 4]] }, 'bus_factor_detail')!;
+    const activity = parseMetric({ '2024-01': [['alice', 10], ['bob', 4]] }, 'activity_details')!;
+    const newcomers = parseMetric({ '2024-01': ['carol', 'dave', 'erin'] }, 'new_contributors_detail')!;
+    expect(toScalarPeriods(busFactor, getMetricDescriptor('bus_factor_detail'))?.periods).toEqual({ '2024-01': 2 });
+    expect(toScalarPeriods(activity, getMetricDescriptor('activity_details'))?.periods).toEqual({ '2024-01': 14 });
+    expect(toScalarPeriods(newcomers, getMetricDescriptor('new_contributors_detail'))?.periods).toEqual({ '2024-01': 3 });
+  });
+
+  it('has no periods for graphs', () => {
+    const network = parseMetric({ nodes: [['a', 1]], edges: [] }, 'developer_network')!;
+    expect(toScalarPeriods(network, getMetricDescriptor('developer_network'))).toBeUndefined();
+  });
+});
+
+describe('getMetricDescriptor', () => {
+  it('treats unregistered quantile series as durations and anything else as higher-is-better', () => {
+    expect(getMetricDescriptor('issue_age')).toMatchObject({ lowerIsBetter: true, defaultStatistic: 'median' });
+    expect(getMetricDescriptor('some_new_duration', 'quantile_series')).toMatchObject({ lowerIsBetter: true });
+    expect(getMetricDescriptor('stars')).toEqual({ shape: 'scalar_series', lowerIsBetter: false });
+  });
+});
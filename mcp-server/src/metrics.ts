@@ -0,0 +1,227 @@
+/**
+ * @file metrics.ts
+ * @description
+ * Registry of OpenDigger metric shapes and typed parsers for each of them.
+ *
+ * OpenDigger metric files come in four families:
+ * - scalar series: `{ "2023-01": 12.3, "2023Q1": 40.1, "2023": 150.2, "2023-01-raw": 11 }`
+ * - quantile series (durations such as `issue_response_time`):
+ *   `{ "avg": { "2023-01": 3.2 }, "levels": { "2023-01": [4, 2, 1, 0] }, "quantile_0": {...}, ..., "quantile_4": {...} }`
+ * - ranked detail lists (`bus_factor_detail`, `activity_details`): `{ "2023-01": [["login", 12], ...] }`,
+ *   or plain name lists (`new_contributors_detail`): `{ "2023-01": ["login", ...] }`
+ * - graphs (`developer_network`, `repo_network`): `{ "nodes": [["name", 3.2], ...], "edges": [["a", "b", 1.5], ...] }`
+ *
+ * `extractSeries` in `analysis.ts` uses `toScalarPeriods` to reduce any series-like shape to one
+ * number per period, so comparisons and trends use e.g. the median response time instead of 0.
+ */
+
+
+export type MetricShape = 'scalar_series' | 'quantile_series' | 'detail_list' | 'graph';
+
+/**
+ * Value picked from a quantile series. OpenDigger's `quantile_0..4` are min, p25, median, p75, max.
+ */
+export type SeriesStatistic = 'avg' | 'min' | 'p25' | 'median' | 'p75' | 'max';
+
+/**
+ * Describes how a metric is shaped and how its values should be read.
+ */
+export interface MetricDescriptor {
+  shape: MetricShape;
+  /** Whether a lower value is the better one (e.g. response times). */
+  lowerIsBetter: boolean;
+  unit?: string | undefined;
+  /** Value used for quantile series when the caller does not choose one. */
+  defaultStatistic?: SeriesStatistic | undefined;
+  /** How a detail list is reduced to one number per period. */
+  listReduction?: 'count' | 'sum' | undefined;
+  /**
+   * How monthly values combine into quarters and years: counts of events add up, while gauges,
+   * scores and quantiles are averaged. Defaults to `sum` for scalar series and `mean` otherwise.
+   */
+  aggregation?: 'sum' | 'mean' | undefined;
+}
+
+const QUANTILE_KEYS: Record<Exclude<SeriesStatistic, 'avg'>, string> = {
+  min: 'quantile_0',
+  p25: 'quantile_1',
+  median: 'quantile_2',
+  p75: 'quantile_3',
+  max: 'quantile_4'
+};
+
+const duration: MetricDescriptor = { shape: 'quantile_series', lowerIsBetter: true, unit: 'days', defaultStatistic: 'median', aggregation: 'mean' };
+const gauge: MetricDescriptor = { shape: 'scalar_series', lowerIsBetter: false, aggregation: 'mean' };
+
+const METRIC_REGISTRY: Record<string, MetricDescriptor> = {
+  issue_response_time: duration,
+  issue_resolution_duration: duration,
+  issue_age: duration,
+  change_request_response_time: duration,
+  change_request_resolution_duration: duration,
+  change_request_age: duration,
+  openrank: gauge,
+  activity: gauge,
+  contributors: gauge,
+  participants: gauge,
+  bus_factor: gauge,
+  maintainer_count: gauge,
+  inactive_contributors: { shape: 'scalar_series', lowerIsBetter: true, aggregation: 'mean' },
+  bus_factor_detail: { shape: 'detail_list', lowerIsBetter: false, listReduction: 'count', aggregation: 'mean' },
+  new_contributors_detail: { shape: 'detail_list', lowerIsBetter: false, listReduction: 'count', aggregation: 'sum' },
+  activity_details: { shape: 'detail_list', lowerIsBetter: false, listReduction: 'sum', aggregation: 'mean' },
+  developer_network: { shape: 'graph', lowerIsBetter: false },
+  repo_network: { shape: 'graph', lowerIsBetter: false }
+};
+
+/**
+ * Metrics OpenDigger publishes for developers (User entities); all other metrics exist for
+ * repositories only.
+ */
+export const USER_METRICS = ['openrank', 'activity', 'developer_network', 'repo_network'] as const;
+
+export type UserMetric = typeof USER_METRICS[number];
+
+/**
+ * Returns the registered descriptor of a metric. Unregistered quantile series are treated as
+ * durations; anything else as a series where higher is better, which covers the bulk of
+ * OpenDigger's activity metrics.
+ *
+ * @param metric - Metric name, if known.
+ * @param shape - Shape detected from the data, used for unregistered metrics.
+ */
+export function getMetricDescriptor(metric: string | undefined, shape?: MetricShape): MetricDescriptor {
+  const registered = metric ? METRIC_REGISTRY[metric] : undefined;
+  if (registered) return registered;
+  if (shape === 'quantile_series') return duration;
+  return { shape: shape ?? 'scalar_series', lowerIsBetter: false };
+}
+
+export interface ScalarSeries {
+  shape: 'scalar_series';
+  periods: Record<string, number>;
+}
+
+export interface QuantileSeries {
+  shape: 'quantile_series';
+  avg: Record<string, number>;
+  quantiles: Partial<Record<Exclude<SeriesStatistic, 'avg'>, Record<string, number>>>;
+  /** Number of items per response-time bucket, when provided. */
+  levels: Record<string, number[]>;
+}
+
+export interface DetailList {
+  shape: 'detail_list';
+  periods: Record<string, Array<{ name: string; value: number }>>;
+}
+
+export interface Graph {
+  shape: 'graph';
+  nodes: Array<{ id: string; value: number }>;
+  edges: Array<{ source: string; target: string; weight: number }>;
+}
+
+export type ParsedMetric = ScalarSeries | QuantileSeries | DetailList | Graph;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Infers the shape of a metric file from its structure.
+ */
+export function detectShape(data: unknown): MetricShape | undefined {
+  if (!isRecord(data)) return undefined;
+  if (Array.isArray(data.nodes) && Array.isArray(data.edges)) return 'graph';
+  if (isRecord(data.avg) || Object.keys(data).some(key => /^quantile_\d$/.test(key))) return 'quantile_series';
+  const values = Object.values(data);
+  if (values.length > 0 && values.every(Array.isArray)) return 'detail_list';
+  return 'scalar_series';
+}
+
+function numericRecord(value: unknown): Record<string, number> {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+}
+
+/**
+ * Parses a metric file into its typed structure.
+ *
+ * @param data - Raw JSON of the metric file.
+ * @param metric - Metric name; only used to break ties when the data is empty.
+ * @returns The parsed metric, or undefined if the data is not an object.
+ */
+export function parseMetric(data: unknown, metric?: string): ParsedMetric | undefined {
+  if (!isRecord(data)) return undefined;
+  const shape = Object.keys(data).length > 0 ? detectShape(data) : getMetricDescriptor(metric).shape;
+
+  switch (shape) {
+    case 'graph':
+      return {
+        shape,
+        nodes: (Array.isArray(data.nodes) ? data.nodes : []).flatMap(node =>
+          Array.isArray(node) && typeof node[0] === 'string' ? [{ id: node[0], value: Number(node[1]) || 0 }] : []),
+        edges: (Array.isArray(data.edges) ? data.edges : []).flatMap(edge =>
+          Array.isArray(edge) && typeof edge[0] === 'string' && typeof edge[1] === 'string'
+            ? [{ source: edge[0], target: edge[1], weight: Number(edge[2]) || 0 }]
+            : [])
+      };
+    case 'quantile_series': {
+      const quantiles: QuantileSeries['quantiles'] = {};
+      (Object.keys(QUANTILE_KEYS) as Array<keyof typeof QUANTILE_KEYS>).forEach(statistic => {
+        if (isRecord(data[QUANTILE_KEYS[statistic]])) quantiles[statistic] = numericRecord(data[QUANTILE_KEYS[statistic]]);
+      });
+      const levels = isRecord(data.levels)
+        ? Object.fromEntries(Object.entries(data.levels).filter((entry): entry is [string, number[]] => Array.isArray(entry[1])))
+        : {};
+      return { shape, avg: numericRecord(data.avg), quantiles, levels };
+    }
+    case 'detail_list':
+      return {
+        shape,
+        periods: Object.fromEntries(Object.entries(data).map(([period, items]) => [
+          period,
+          // Entries are either `[name, value]` pairs or bare names (e.g. new contributor logins)
+          (items as unknown[]).flatMap(item => {
+            if (typeof item === 'string') return [{ name: item, value: 1 }];
+            return Array.isArray(item) && item.length > 0 ? [{ name: String(item[0]), value: Number(item[1]) || 0 }] : [];
+          })
+        ]))
+      };
+    default:
+      return { shape: 'scalar_series', periods: numericRecord(data) };
+  }
+}
+
+/**
+ * Reduces a parsed metric to one number per period key (`2023-01`, `2023Q1`, `2023`, `...-raw`).
+ *
+ * @param parsed - Parsed metric.
+ * @param descriptor - Descriptor supplying the default statistic and list reduction.
+ * @param statistic - Value to pick from quantile series (defaults to the descriptor's, else median).
+ * @returns The period map and the statistic actually used, or undefined for graphs.
+ */
+export function toScalarPeriods(parsed: ParsedMetric, descriptor: MetricDescriptor, statistic?: SeriesStatistic):
+  { periods: Record<string, number>; statistic?: SeriesStatistic | undefined } | undefined {
+  switch (parsed.shape) {
+    case 'scalar_series':
+      return { periods: parsed.periods };
+    case 'quantile_series': {
+      const wanted = statistic ?? descriptor.defaultStatistic ?? 'median';
+      const periods = wanted === 'avg' ? parsed.avg : parsed.quantiles[wanted];
+      if (periods && Object.keys(periods).length > 0) return { periods, statistic: wanted };
+      // Files without quantiles still carry the average
+      return { periods: parsed.avg, statistic: 'avg' };
+    }
+    case 'detail_list': {
+      const reduce = descriptor.listReduction ?? 'count';
+      return {
+        periods: Object.fromEntries(Object.entries(parsed.periods).map(([period, items]) => [
+          period,
+          reduce === 'count' ? items.length : items.reduce((sum, item) => sum + item.value, 0)
+        ]))
+      };
+    }
+    case 'graph':
+      return undefined;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeNetwork, exportEdgeList } from './network.js';
+import { parseMetric, type Graph } from './metrics.js';
+
+const graph = (nodes: Array<[string, number]>, edges: Array<[string, string, number]>): Graph =>
+  parseMetric({ nodes, edges }) as Graph;
+
+// Two tight triangles joined through a single go-between
+const twoTeams = graph(
+  [['alice', 9], ['bob', 5], ['carol', 4], ['dave', 6], ['erin', 3], ['frank', 2], ['xena', 1]],
+  [
+    ['alice', 'bob', 5], ['bob', 'carol', 5], ['alice', 'carol', 5],
+    ['dave', 'erin', 5], ['erin', 'frank', 5], ['dave', 'frank', 5],
+    ['carol', 'xena', 1], ['xena', 'dave', 1]
+  ]
+);
+
+describe('analyzeNetwork', () => {
+  it('summarizes size, weight and density', () => {
+    const { summary } = analyzeNetwork(twoTeams, 'alice', 5);
+    expect(summary).toMatchObject({ nodes: 7, edges: 8, totalWeight: 32, density: 0.381 });
+  });
+
+  it('separates the two teams into communities with positive modularity', () => {
+    const analysis = analyzeNetwork(twoTeams, 'alice', 5);
+    const communityOf = (id: string) => analysis.communities.find(community => community.members.includes(id))!.id;
+
+    expect(analysis.summary.communities).toBe(2);
+    expect(analysis.summary.modularity).toBeGreaterThan(0.3);
+    expect(communityOf('alice')).toBe(communityOf('carol'));
+    expect(communityOf('dave')).toBe(communityOf('frank'));
+    expect(communityOf('alice')).not.toBe(communityOf('dave'));
+  });
+
+  it('reports the go-between and the team members it connects as bridges', () => {
+    const { bridges } = analyzeNetwork(twoTeams, 'alice', 10);
+    const ids = bridges.map(bridge => bridge.id);
+    expect(ids).toEqual(expect.arrayContaining(['carol', 'xena', 'dave']));
+    expect(ids).not.toContain('alice');
+    expect(bridges.every(bridge => bridge.articulationPoint)).toBe(true);
+  });
+
+  it('ranks the neighbours of the focal node case-insensitively', () => {
+    const analysis = analyzeNetwork(twoTeams, 'CAROL', 5);
+    expect(analysis.focus).toEqual({ id: 'carol', found: true });
+    expect(analysis.topNeighbors.map(neighbor => neighbor.weight)).toEqual([5, 5, 1]);
+    expect(analysis.topNeighbors[2]!.id).toBe('xena');
+  });
+
+  it('falls back to the strongest nodes when the focal node is absent', () => {
+    const analysis = analyzeNetwork(twoTeams, 'owner/repo', 2);
+    expect(analysis.focus).toEqual({ id: 'owner/repo', found: false });
+    // carol and dave tie on weighted degree; dave's higher value breaks the tie
+    expect(analysis.topNeighbors.map(neighbor => neighbor.id)).toEqual(['dave', 'carol']);
+  });
+
+  it('merges parallel edges and drops self-loops', () => {
+    const analysis = analyzeNetwork(graph([['a', 1], ['b', 1]], [['a', 'b', 1], ['b', 'a', 2], ['a', 'a', 9]]), 'a', 5);
+    expect(analysis.summary).toMatchObject({ edges: 1, totalWeight: 3 });
+    expect(analysis.topNeighbors).toEqual([{ id: 'b', weight: 3, value: 1 }]);
+  });
+});
+
+describe('exportEdgeList', () => {
+  it('orders edges by weight and quotes CSV fields when needed', () => {
+    const edges = graph([], [['a', 'b', 1], ['c,d', 'e"f', 3]]);
+    expect((exportEdgeList(edges, 'json') as Array<{ weight: number }>).map(edge => edge.weight)).toEqual([3, 1]);
+    expect(exportEdgeList(edges, 'csv')).toBe('source,target,weight\n"c,d","e""f",3\na,b,1');
+  });
+});
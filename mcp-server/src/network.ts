@@ -0,0 +1,274 @@
+/**
+ * @file network.ts
+ * @description
+ * Graph analysis for OpenDigger's `developer_network` and `repo_network` payloads.
+ *
+ * The networks are small (OpenDigger keeps the strongest few dozen collaborators), so exact
+ * algorithms are used throughout:
+ * - weighted degree (strength) and neighbour rankings
+ * - communities by weighted label propagation, scored with Newman modularity
+ * - bridges: articulation points, and nodes whose ties span several communities
+ *   (participation coefficient)
+ */
+
+
+import type { Graph } from './metrics.js';
+
+export interface NetworkNode {
+  id: string;
+  value: number;
+  degree: number;
+  weightedDegree: number;
+  community: number;
+}
+
+export interface NetworkNeighbor {
+  id: string;
+  weight: number;
+  value: number;
+}
+
+export interface NetworkCommunity {
+  id: number;
+  size: number;
+  members: string[];
+  internalWeight: number;
+}
+
+export interface NetworkBridge {
+  id: string;
+  articulationPoint: boolean;
+  participationCoefficient: number;
+  communitiesReached: number;
+}
+
+export interface NetworkAnalysis {
+  summary: {
+    nodes: number;
+    edges: number;
+    totalWeight: number;
+    density: number;
+    communities: number;
+    modularity: number;
+  };
+  focus: { id: string; found: boolean };
+  topNeighbors: NetworkNeighbor[];
+  topNodes: NetworkNode[];
+  communities: NetworkCommunity[];
+  bridges: NetworkBridge[];
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/**
+ * Undirected weighted adjacency; parallel edges are merged and self-loops dropped.
+ */
+function buildAdjacency(graph: Graph): Map<string, Map<string, number>> {
+  const adjacency = new Map<string, Map<string, number>>();
+  const ensure = (id: string) => {
+    let neighbours = adjacency.get(id);
+    if (!neighbours) adjacency.set(id, neighbours = new Map());
+    return neighbours;
+  };
+  graph.nodes.forEach(node => ensure(node.id));
+  graph.edges.forEach(({ source, target, weight }) => {
+    if (source === target) return;
+    ensure(source).set(target, (ensure(source).get(target) ?? 0) + weight);
+    ensure(target).set(source, (ensure(target).get(source) ?? 0) + weight);
+  });
+  return adjacency;
+}
+
+const strength = (neighbours: Map<string, number>) => [...neighbours.values()].reduce((sum, w) => sum + w, 0);
+
+/**
+ * Weighted label propagation. Nodes are visited in a fixed order and ties go to the smallest
+ * label, so the result is deterministic for a given payload.
+ */
+function detectCommunities(adjacency: Map<string, Map<string, number>>): Map<string, number> {
+  const ids = [...adjacency.keys()].sort();
+  const labels = new Map(ids.map(id => [id, id]));
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    let changed = false;
+    for (const id of ids) {
+      const scores = new Map<string, number>();
+      adjacency.get(id)!.forEach((weight, neighbour) => {
+        const label = labels.get(neighbour)!;
+        scores.set(label, (scores.get(label) ?? 0) + weight);
+      });
+      if (scores.size === 0) continue;
+      const best = Math.max(...scores.values());
+      const label = [...scores.entries()].filter(([, score]) => score === best).map(([candidate]) => candidate).sort()[0]!;
+      if (label !== labels.get(id)) {
+        labels.set(id, label);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  // Renumber communities by size, largest first
+  const sizes = new Map<string, number>();
+  labels.forEach(label => sizes.set(label, (sizes.get(label) ?? 0) + 1));
+  const order = [...sizes.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([label]) => label);
+  return new Map([...labels.entries()].map(([id, label]) => [id, order.indexOf(label)]));
+}
+
+function modularity(adjacency: Map<string, Map<string, number>>, communities: Map<string, number>): number {
+  const twiceTotal = [...adjacency.values()].reduce((sum, neighbours) => sum + strength(neighbours), 0);
+  if (twiceTotal === 0) return 0;
+  const internal = new Map<number, number>();
+  const degreeSum = new Map<number, number>();
+  adjacency.forEach((neighbours, id) => {
+    const community = communities.get(id)!;
+    degreeSum.set(community, (degreeSum.get(community) ?? 0) + strength(neighbours));
+    neighbours.forEach((weight, neighbour) => {
+      if (communities.get(neighbour) === community) internal.set(community, (internal.get(community) ?? 0) + weight);
+    });
+  });
+  let q = 0;
+  degreeSum.forEach((sum, community) => {
+    q += (internal.get(community) ?? 0) / twiceTotal - (sum / twiceTotal) ** 2;
+  });
+  return q;
+}
+
+/**
+ * Articulation points (Tarjan): nodes whose removal disconnects part of the network.
+ */
+function articulationPoints(adjacency: Map<string, Map<string, number>>): Set<string> {
+  const discovery = new Map<string, number>();
+  const low = new Map<string, number>();
+  const points = new Set<string>();
+  let time = 0;
+
+  const visit = (id: string, parent: string | undefined) => {
+    discovery.set(id, time);
+    low.set(id, time++);
+    let children = 0;
+    for (const neighbour of adjacency.get(id)!.keys()) {
+      if (!discovery.has(neighbour)) {
+        children++;
+        visit(neighbour, id);
+        low.set(id, Math.min(low.get(id)!, low.get(neighbour)!));
+        if (parent !== undefined && low.get(neighbour)! >= discovery.get(id)!) points.add(id);
+      } else if (neighbour !== parent) {
+        low.set(id, Math.min(low.get(id)!, discovery.get(neighbour)!));
+      }
+    }
+    if (parent === undefined && children > 1) points.add(id);
+  };
+
+  for (const id of adjacency.keys()) {
+    if (!discovery.has(id)) visit(id, undefined);
+  }
+  return points;
+}
+
+/**
+ * Analyzes an OpenDigger network graph.
+ *
+ * @param graph - Parsed network payload.
+ * @param focus - Node the network belongs to (repository name or developer login).
+ * @param limit - Size of the neighbour, node and bridge rankings.
+ * @returns Rankings, communities and bridges of the network.
+ */
+export function analyzeNetwork(graph: Graph, focus: string, limit: number): NetworkAnalysis {
+  const adjacency = buildAdjacency(graph);
+  const values = new Map(graph.nodes.map(node => [node.id, node.value]));
+  const communities = detectCommunities(adjacency);
+  const articulation = articulationPoints(adjacency);
+
+  // OpenDigger names are case-insensitive on GitHub
+  const focusId = [...adjacency.keys()].find(id => id.toLowerCase() === focus.toLowerCase());
+  const edgeCount = [...adjacency.values()].reduce((sum, neighbours) => sum + neighbours.size, 0) / 2;
+  const totalWeight = [...adjacency.values()].reduce((sum, neighbours) => sum + strength(neighbours), 0) / 2;
+  const n = adjacency.size;
+
+  const nodes: NetworkNode[] = [...adjacency.entries()].map(([id, neighbours]) => ({
+    id,
+    value: round(values.get(id) ?? 0),
+    degree: neighbours.size,
+    weightedDegree: round(strength(neighbours)),
+    community: communities.get(id)!
+  }));
+
+  // Without the focal node in the payload, its neighbours are the whole network
+  const topNeighbors = focusId
+    ? [...adjacency.get(focusId)!.entries()]
+      .map(([id, weight]) => ({ id, weight: round(weight), value: round(values.get(id) ?? 0) }))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, limit)
+    : nodes
+      .map(node => ({ id: node.id, weight: node.weightedDegree, value: node.value }))
+      .sort((a, b) => b.weight - a.weight || b.value - a.value)
+      .slice(0, limit);
+
+  const grouped = new Map<number, string[]>();
+  communities.forEach((community, id) => grouped.set(community, [...(grouped.get(community) ?? []), id]));
+  const communityList = [...grouped.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([id, members]) => {
+      const memberSet = new Set(members);
+      const internalWeight = members.reduce((sum, member) =>
+        sum + [...adjacency.get(member)!.entries()].reduce((inner, [neighbour, weight]) => inner + (memberSet.has(neighbour) ? weight : 0), 0), 0) / 2;
+      return {
+        id,
+        size: members.length,
+        members: members.sort((a, b) => (values.get(b) ?? 0) - (values.get(a) ?? 0)).slice(0, limit),
+        internalWeight: round(internalWeight)
+      };
+    });
+
+  const bridges = nodes.flatMap(node => {
+    const neighbours = adjacency.get(node.id)!;
+    const total = strength(neighbours);
+    if (total === 0) return [];
+    const perCommunity = new Map<number, number>();
+    neighbours.forEach((weight, neighbour) => {
+      const community = communities.get(neighbour)!;
+      perCommunity.set(community, (perCommunity.get(community) ?? 0) + weight);
+    });
+    // Participation coefficient: 0 when all ties stay in one community, towards 1 when evenly spread
+    const participation = 1 - [...perCommunity.values()].reduce((sum, weight) => sum + (weight / total) ** 2, 0);
+    const isArticulation = articulation.has(node.id);
+    if (!isArticulation && perCommunity.size < 2) return [];
+    return [{
+      id: node.id,
+      articulationPoint: isArticulation,
+      participationCoefficient: round(participation),
+      communitiesReached: perCommunity.size
+    }];
+  })
+    .sort((a, b) => Number(b.articulationPoint) - Number(a.articulationPoint) || b.participationCoefficient - a.participationCoefficient)
+    .slice(0, limit);
+
+  return {
+    summary: {
+      nodes: n,
+      edges: edgeCount,
+      totalWeight: round(totalWeight),
+      density: n > 1 ? round((2 * edgeCount) / (n * (n - 1))) : 0,
+      communities: grouped.size,
+      modularity: round(modularity(adjacency, communities))
+    },
+    focus: { id: focusId ?? focus, found: focusId !== undefined },
+    topNeighbors,
+    topNodes: [...nodes].sort((a, b) => b.weightedDegree - a.weightedDegree).slice(0, limit),
+    communities: communityList,
+    bridges
+  };
+}
+
+/**
+ * Flattens a network into an edge list, strongest ties first.
+ *
+ * @param format - `json` returns objects, `csv` a `source,target,weight` document.
+ */
+export function exportEdgeList(graph: Graph, format: 'json' | 'csv'): Array<{ source: string; target: string; weight: number }> | string {
+  const edges = [...graph.edges].sort((a, b) => b.weight - a.weight);
+  if (format === 'json') return edges;
+  const quote = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return ['source,target,weight', ...edges.map(edge => `${quote(edge.source)},${quote(edge.target)},${edge.weight}`)].join('\n');
+}
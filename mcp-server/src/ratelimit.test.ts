@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClientRateLimiter, batchUnits, mcpRequestUnits } from './ratelimit.js';
+
+const call = (name: string, args?: unknown) => ({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } });
+
+describe('request units', () => {
+  const toolUnits = async (name: string, args: unknown) =>
+    name === 'get_ecosystem_insights' ? (args as { repositories: string[] }).repositories.length * 4 : 0;
+
+  it('charges a batch one unit per requested metric', () => {
+    expect(batchUnits([{}, {}, {}])).toBe(3);
+    expect(batchUnits([])).toBe(1);
+    expect(batchUnits(undefined)).toBe(1);
+  });
+
+  it('charges tool calls what the tool fetches, and at least one unit per message', async () => {
+    expect(await mcpRequestUnits(call('get_ecosystem_insights', { repositories: ['a/b', 'c/d', 'e/f'] }), toolUnits)).toBe(12);
+    expect(await mcpRequestUnits(call('server_health'), toolUnits)).toBe(1);
+    expect(await mcpRequestUnits({ jsonrpc: '2.0', id: 1, method: 'initialize' }, toolUnits)).toBe(1);
+    expect(await mcpRequestUnits(undefined, toolUnits)).toBe(1);
+  });
+
+  it('adds up the messages of a JSON-RPC batch', async () => {
+    const body = [call('get_ecosystem_insights', { repositories: ['a/b'] }), call('list_scoring_profiles'), { jsonrpc: '2.0', method: 'notifications/initialized' }];
+    expect(await mcpRequestUnits(body, toolUnits)).toBe(6);
+  });
+});
+
+describe('ClientRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('admits everything when disabled', () => {
+    const limiter = new ClientRateLimiter(0, 0, 0);
+    expect(limiter.enabled).toBe(false);
+    expect(limiter.consume('ip:1', 1_000)).toEqual({ ok: true });
+  });
+
+  it('rejects once the bucket is empty and refills it over time', () => {
+    const limiter = new ClientRateLimiter(60, 3, 0);
+    expect(limiter.consume('key:a', 3)).toEqual({ ok: true });
+
+    const limited = limiter.consume('key:a');
+    expect(limited).toMatchObject({ ok: false, reason: 'rate', retryAfterSeconds: 1 });
+    expect(limiter.consume('key:b')).toEqual({ ok: true });
+
+    vi.advanceTimersByTime(1_000);
+    expect(limiter.consume('key:a')).toEqual({ ok: true });
+  });
+
+  it('admits a request above the burst from a full bucket and leaves it in debt', () => {
+    const limiter = new ClientRateLimiter(60, 5, 0);
+    expect(limiter.consume('key:a', 8)).toEqual({ ok: true });
+    expect(limiter.stats('key:a').client?.tokens).toBe(-3);
+
+    // Back to one token after four seconds
+    vi.advanceTimersByTime(3_000);
+    expect(limiter.consume('key:a')).toMatchObject({ ok: false, reason: 'rate' });
+    vi.advanceTimersByTime(1_000);
+    expect(limiter.consume('key:a')).toEqual({ ok: true });
+  });
+
+  it('enforces the daily quota until midnight UTC', () => {
+    const limiter = new ClientRateLimiter(0, 0, 10);
+    expect(limiter.consume('key:a', 6)).toEqual({ ok: true });
+    expect(limiter.consume('key:a', 5)).toMatchObject({ ok: false, reason: 'quota', retryAfterSeconds: 12 * 3600 });
+    expect(limiter.consume('key:a', 4)).toEqual({ ok: true });
+
+    vi.setSystemTime(new Date('2024-06-02T00:00:00Z'));
+    expect(limiter.consume('key:a', 10)).toEqual({ ok: true });
+  });
+
+  it('refuses a request costing more than the whole daily quota without a retry time', () => {
+    const limiter = new ClientRateLimiter(60, 10, 100);
+    const refused = limiter.consume('key:a', 101);
+    expect(refused).toEqual({ ok: false, reason: 'too_large', message: expect.stringContaining('Request costs 101 units, above the daily quota of 100') });
+    expect(refused).not.toHaveProperty('retryAfterSeconds');
+    expect(limiter.consume('key:a', 100)).toEqual({ ok: true });
+  });
+
+  it('reports usage without creating entries for unknown clients', () => {
+    const limiter = new ClientRateLimiter(60, 10, 100);
+    limiter.consume('key:a', 4);
+    limiter.consume('key:a', 200);
+
+    expect(limiter.stats('key:a')).toMatchObject({
+      enabled: true,
+      perMinute: 60,
+      burst: 10,
+      dailyQuota: 100,
+      client: { client: 'key:a', tokens: 6, usedToday: 4, remainingToday: 96, rejectedToday: 1 }
+    });
+    expect(limiter.stats('key:b').client).toMatchObject({ tokens: 10, usedToday: 0, remainingToday: 100 });
+    expect(limiter.stats().client).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @file ratelimit.ts
+ * @description
+ * Per-client rate limiting and daily quotas for the HTTP server.
+ *
+ * Clients are identified by the name of their API key, or by IP address when authentication is
+ * off. Each client has a token bucket (CLIENT_RATE_LIMIT_PER_MINUTE tokens per minute, holding up
+ * to CLIENT_RATE_LIMIT_BURST) and a daily quota (CLIENT_DAILY_QUOTA units per UTC day). A request
+ * costs one unit per metric file it fetches from the data source (e.g. repositories x metrics for
+ * an ecosystem report), and at least one. A request costing more than the burst is admitted when
+ * the bucket is full and leaves it in debt; one costing more than the daily quota is refused.
+ */
+
+
+import { SERVER_CONFIG } from './config.js';
+
+export type LimitResult =
+  | { ok: true }
+  | { ok: false; reason: 'rate' | 'quota'; retryAfterSeconds: number; message: string }
+  /** The request alone exceeds the daily quota; retrying cannot help. */
+  | { ok: false; reason: 'too_large'; message: string };
+
+interface ClientUsage {
+  tokens: number;
+  lastRefill: number;
+  /** UTC day (YYYY-MM-DD) that `used` counts. */
+  day: string;
+  used: number;
+  rejected: number;
+}
+
+const utcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+function secondsUntilNextUtcDay(time: number): number {
+  const next = new Date(time);
+  next.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((next.getTime() - time) / 1000);
+}
+
+/**
+ * Units a batch costs: one per requested metric.
+ */
+export function batchUnits(requests: unknown): number {
+  return Array.isArray(requests) ? Math.max(1, requests.length) : 1;
+}
+
+/**
+ * Units a JSON-RPC message (or batch) sent to the MCP endpoint costs: one per message, or what
+ * `toolUnits` charges for a `tools/call`.
+ *
+ * @param body - Parsed request body.
+ * @param toolUnits - Units a call of the named tool costs, given its raw arguments.
+ */
+export async function mcpRequestUnits(
+  body: unknown,
+  toolUnits: (name: string, toolArguments: unknown) => Promise<number>
+): Promise<number> {
+  const messages = Array.isArray(body) ? body : [body];
+  const units = await Promise.all(messages.map(async (message) => {
+    const request = message as { method?: unknown; params?: { name?: unknown; arguments?: unknown } } | null;
+    if (request?.method !== 'tools/call' || typeof request.params?.name !== 'string') return 1;
+    return Math.max(1, await toolUnits(request.params.name, request.params.arguments));
+  }));
+  return Math.max(1, units.reduce((sum, value) => sum + value, 0));
+}
+
+export class ClientRateLimiter {
+  readonly perMinute: number;
+  readonly burst: number;
+  readonly dailyQuota: number;
+  private readonly clients = new Map<string, ClientUsage>();
+  private lastPrune = Date.now();
+
+  constructor(perMinute: number, burst: number, dailyQuota: number) {
+    this.perMinute = perMinute;
+    this.burst = burst;
+    this.dailyQuota = dailyQuota;
+  }
+
+  get enabled(): boolean {
+    return this.perMinute > 0 || this.dailyQuota > 0;
+  }
+
+  private usageOf(client: string, now: number): ClientUsage {
+    let usage = this.clients.get(client);
+    if (!usage) {
+      usage = { tokens: this.burst, lastRefill: now, day: utcDay(now), used: 0, rejected: 0 };
+      this.clients.set(client, usage);
+    }
+    if (this.perMinute > 0) {
+      usage.tokens = Math.min(this.burst, usage.tokens + ((now - usage.lastRefill) / 60_000) * this.perMinute);
+      usage.lastRefill = now;
+    }
+    if (usage.day !== utcDay(now)) {
+      usage.day = utcDay(now);
+      usage.used = 0;
+      usage.rejected = 0;
+    }
+    return usage;
+  }
+
+  /**
+   * Drops clients with a full bucket and no usage today, so that one-off IPs do not accumulate.
+   */
+  private prune(now: number): void {
+    if (now - this.lastPrune < 60_000) return;
+    this.lastPrune = now;
+    this.clients.forEach((_, client) => {
+      const usage = this.usageOf(client, now);
+      if (usage.used === 0 && usage.tokens >= this.burst) this.clients.delete(client);
+    });
+  }
+
+  /**
+   * Charges a request to a client, or rejects it when the client is out of tokens or quota.
+   *
+   * @param client - Client identity (API key name or IP address).
+   * @param units - Cost of the request.
+   */
+  consume(client: string, units: number = 1): LimitResult {
+    if (!this.enabled) return { ok: true };
+    const now = Date.now();
+    this.prune(now);
+    const usage = this.usageOf(client, now);
+
+    if (this.dailyQuota > 0 && units > this.dailyQuota) {
+      usage.rejected++;
+      return {
+        ok: false,
+        reason: 'too_large',
+        message: `Request costs ${units} units, above the daily quota of ${this.dailyQuota}; fetch fewer repositories or metrics per call`
+      };
+    }
+    if (this.dailyQuota > 0 && usage.used + units > this.dailyQuota) {
+      usage.rejected++;
+      return {
+        ok: false,
+        reason: 'quota',
+        retryAfterSeconds: secondsUntilNextUtcDay(now),
+        message: `Daily quota of ${this.dailyQuota} units exhausted (${usage.used} used, request costs ${units}); it resets at 00:00 UTC`
+      };
+    }
+    if (this.perMinute > 0 && usage.tokens < Math.min(units, this.burst)) {
+      usage.rejected++;
+      const missing = Math.min(units, this.burst) - usage.tokens;
+      return {
+        ok: false,
+        reason: 'rate',
+        retryAfterSeconds: Math.max(1, Math.ceil((missing / this.perMinute) * 60)),
+        message: `Rate limit of ${this.perMinute} units per minute (burst ${this.burst}) exceeded; request costs ${units}`
+      };
+    }
+
+    if (this.perMinute > 0) usage.tokens -= units;
+    usage.used += units;
+    return { ok: true };
+  }
+
+  /**
+   * Limits and the current usage of one client. Reading does not create an entry for the client.
+   */
+  stats(client?: string) {
+    const now = Date.now();
+    const describe = (name: string) => {
+      const usage = this.clients.get(name);
+      const today = usage?.day === utcDay(now);
+      const tokens = usage ? Math.min(this.burst, usage.tokens + ((now - usage.lastRefill) / 60_000) * this.perMinute) : this.burst;
+      const used = usage && today ? usage.used : 0;
+      return {
+        client: name,
+        tokens: this.perMinute > 0 ? Number(tokens.toFixed(2)) : null,
+        usedToday: used,
+        remainingToday: this.dailyQuota > 0 ? Math.max(0, this.dailyQuota - used) : null,
+        rejectedToday: usage && today ? usage.rejected : 0
+      };
+    };
+    return {
+      enabled: this.enabled,
+      perMinute: this.perMinute || null,
+      burst: this.perMinute > 0 ? this.burst : null,
+      dailyQuota: this.dailyQuota || null,
+      quotaResetsInSeconds: secondsUntilNextUtcDay(now),
+      client: client !== undefined ? describe(client) : null
+    };
+  }
+}
+
+export const clientRateLimiter = new ClientRateLimiter(
+  SERVER_CONFIG.clientRateLimitPerMinute,
+  SERVER_CONFIG.clientRateLimitBurst,
+  SERVER_CONFIG.clientDailyQuota
+);
+
+/**
+ * Returns the rate limits and the usage of the requesting client for health reporting. Other
+ * clients' usage is not reported, since it would reveal their IP addresses and key names.
+ *
+ * @param client - Client of the health request.
+ */
+export function getRateLimitStats(client?: string) {
+  return clientRateLimiter.stats(client);
+}
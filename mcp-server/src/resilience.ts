@@ -0,0 +1,242 @@
+/**
+ * @file resilience.ts
+ * @description
+ * Fault handling for upstream data source requests: per-request timeouts, retries with
+ * exponential backoff and jitter, `Retry-After` support and a circuit breaker that fails
+ * fast while OpenDigger is unavailable.
+ *
+ * Environment Variables:
+ * - FETCH_TIMEOUT_MS: Per-attempt timeout (default: 10000)
+ * - FETCH_MAX_RETRIES: Retries after the first attempt for transient failures (default: 3)
+ * - FETCH_BACKOFF_BASE_MS: Base delay of the exponential backoff (default: 250)
+ * - FETCH_BACKOFF_MAX_MS: Upper bound of a single backoff delay (default: 10000)
+ * - FETCH_RETRY_AFTER_MAX_MS: Longest `Retry-After` the server is willing to wait for (default: 30000)
+ * - CIRCUIT_BREAKER_THRESHOLD: Consecutive failed requests that open the circuit (default: 5)
+ * - CIRCUIT_BREAKER_COOLDOWN_MS: How long the circuit stays open before a trial request (default: 30000)
+ */
+
+
+import type { DataSource, SourceRequestOptions, SourceResponse } from './datasource.js';
+import { requestScheduler } from './scheduler.js';
+
+/**
+ * Per-call overrides for timeouts and retries.
+ */
+export interface RetryOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export type UpstreamFailureKind = 'http' | 'timeout' | 'network' | 'circuit_open';
+
+/**
+ * Structured details attached to upstream failures, used to tailor error suggestions.
+ */
+export interface UpstreamErrorDetails {
+  kind: UpstreamFailureKind;
+  attempts: number;
+  status?: number | undefined;
+  retryAfterMs?: number | undefined;
+}
+
+/**
+ * Error raised when the data source could not deliver a response.
+ */
+export class UpstreamError extends Error {
+  readonly details: UpstreamErrorDetails;
+
+  constructor(message: string, details: UpstreamErrorDetails) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.details = details;
+  }
+}
+
+const TIMEOUT_MS = Number(process.env.FETCH_TIMEOUT_MS || 10000);
+const MAX_RETRIES = Number(process.env.FETCH_MAX_RETRIES ?? 3);
+const BACKOFF_BASE_MS = Number(process.env.FETCH_BACKOFF_BASE_MS || 250);
+const BACKOFF_MAX_MS = Number(process.env.FETCH_BACKOFF_MAX_MS || 10000);
+const RETRY_AFTER_MAX_MS = Number(process.env.FETCH_RETRY_AFTER_MAX_MS || 30000);
+const BREAKER_THRESHOLD = Number(process.env.CIRCUIT_BREAKER_THRESHOLD || 5);
+const BREAKER_COOLDOWN_MS = Number(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || 30000);
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Classic three-state circuit breaker. Only transient failures (timeouts, network errors,
+ * retryable statuses) count towards opening it; a 404 means the upstream is healthy.
+ */
+class CircuitBreaker {
+  private state: 'closed' | 'open' | 'half_open' = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private timesOpened = 0;
+
+  /**
+   * Returns the remaining cooldown in ms when requests must be rejected, or 0 when they may proceed.
+   */
+  acquire(): number {
+    if (this.state === 'open') {
+      const remaining = this.openedAt + BREAKER_COOLDOWN_MS - Date.now();
+      if (remaining > 0) return remaining;
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) return BREAKER_COOLDOWN_MS;
+      this.trialInFlight = true;
+    }
+    return 0;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (this.state === 'half_open' || this.consecutiveFailures >= BREAKER_THRESHOLD) {
+      if (this.state !== 'open') this.timesOpened++;
+      this.state = 'open';
+      this.openedAt = Date.now();
+      console.error(`Circuit breaker opened after ${this.consecutiveFailures} consecutive upstream failures`);
+    }
+  }
+
+  /** Releases a half-open trial that ended without telling us anything about upstream health. */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  stats() {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      timesOpened: this.timesOpened,
+      retryInMs: this.state === 'open' ? Math.max(0, this.openedAt + BREAKER_COOLDOWN_MS - Date.now()) : 0
+    };
+  }
+}
+
+const breaker = new CircuitBreaker();
+let totalRetries = 0;
+let totalTimeouts = 0;
+let rejectedByBreaker = 0;
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date.
+ */
+export function parseRetryAfter(header: string | undefined): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^attempt)].
+ */
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a single attempt through the shared request scheduler, with a timeout enforced
+ * through an AbortController. The timeout starts once the scheduler lets the attempt run.
+ */
+function attemptLoad(source: DataSource, metricPath: string, options: SourceRequestOptions | undefined, timeoutMs: number): Promise<SourceResponse> {
+  return requestScheduler.schedule(async () => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await source.load(metricPath, { ...options, signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+    }
+  });
+}
+
+/**
+ * Loads a metric path with timeouts, retries and the circuit breaker applied.
+ * Non-retryable responses (e.g. 404) are returned as-is for the caller to handle.
+ *
+ * @throws UpstreamError when the circuit is open or every attempt failed transiently.
+ */
+export async function loadWithRetry(source: DataSource, metricPath: string, options?: SourceRequestOptions, retry: RetryOptions = {}): Promise<SourceResponse> {
+  const timeoutMs = retry.timeoutMs ?? TIMEOUT_MS;
+  const maxRetries = retry.maxRetries ?? MAX_RETRIES;
+
+  const cooldown = breaker.acquire();
+  if (cooldown > 0) {
+    rejectedByBreaker++;
+    throw new UpstreamError(
+      `Circuit breaker open: upstream ${source.location} is failing, retry in ${Math.ceil(cooldown / 1000)}s`,
+      { kind: 'circuit_open', attempts: 0, retryAfterMs: cooldown }
+    );
+  }
+
+  let attempt = 0;
+  while (true) {
+    attempt++;
+    let failure: UpstreamErrorDetails;
+    let message: string;
+
+    try {
+      const response = await attemptLoad(source, metricPath, options, timeoutMs);
+      if (!RETRYABLE_STATUSES.has(response.status)) {
+        breaker.recordSuccess();
+        return response;
+      }
+      const retryAfterMs = parseRetryAfter(response.retryAfter);
+      failure = { kind: 'http', attempts: attempt, status: response.status, retryAfterMs };
+      message = `HTTP ${response.status}: ${response.statusText}`;
+    } catch (error) {
+      const aborted = (error as Error).name === 'AbortError' || (error as Error).name === 'TimeoutError';
+      // fetch reports connection failures as TypeError; anything else (e.g. malformed JSON) is not transient
+      if (!aborted && !(error instanceof TypeError)) {
+        breaker.release();
+        throw error;
+      }
+      if (aborted) totalTimeouts++;
+      failure = { kind: aborted ? 'timeout' : 'network', attempts: attempt };
+      message = aborted ? `Request timeout after ${timeoutMs}ms` : `Network error: ${(error as Error).message}`;
+    }
+
+    const delay = failure.retryAfterMs ?? backoffDelay(attempt - 1);
+    if (attempt > maxRetries || delay > RETRY_AFTER_MAX_MS) {
+      breaker.recordFailure();
+      const suffix = failure.retryAfterMs !== undefined && delay > RETRY_AFTER_MAX_MS
+        ? `, upstream asked to retry after ${Math.ceil(delay / 1000)}s`
+        : '';
+      throw new UpstreamError(`${message} (gave up after ${attempt} attempt${attempt === 1 ? '' : 's'}${suffix})`, failure);
+    }
+
+    totalRetries++;
+    console.error(`Retrying ${source.resolve(metricPath)} in ${delay.toFixed(0)}ms (attempt ${attempt} failed: ${message})`);
+    await sleep(delay);
+  }
+}
+
+/**
+ * Returns retry and circuit breaker statistics for health reporting.
+ */
+export function getUpstreamStats() {
+  return {
+    circuitBreaker: breaker.stats(),
+    retries: totalRetries,
+    timeouts: totalTimeouts,
+    rejectedByCircuitBreaker: rejectedByBreaker,
+    config: {
+      timeoutMs: TIMEOUT_MS,
+      maxRetries: MAX_RETRIES,
+      backoffBaseMs: BACKOFF_BASE_MS,
+      backoffMaxMs: BACKOFF_MAX_MS
+    }
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * @file risk.ts
+ * @description
+ * Sustainability risk assessment for a repository, as used when reviewing upstream dependencies.
+ *
+ * Each signal (bus factor, maintainers, inactive contributors, issue response time, releases) is
+ * rated low/medium/high against fixed thresholds, with the evidence behind the rating and the
+ * direction the signal has moved over the last six months compared with the six before.
+ * Bus factor and maintainer count are the core signals: a high rating on either makes the
+ * overall risk high.
+ */
+
+
+import { extractSeries, shiftMonth } from './analysis.js';
+
+export type RiskRating = 'low' | 'medium' | 'high' | 'unknown';
+
+export type RiskSignal = 'bus_factor' | 'maintainer_count' | 'inactive_contributors' | 'issue_response_time' | 'releases';
+
+export interface SignalAssessment {
+  signal: RiskSignal;
+  rating: RiskRating;
+  value: number | null;
+  unit: string;
+  evidence: string;
+  trend: {
+    direction: 'improving' | 'worsening' | 'stable' | 'unknown';
+    recent: number | null;
+    previous: number | null;
+  };
+  latestPeriod: string | null;
+}
+
+export interface RiskReport {
+  overall: RiskRating;
+  score: number | null;
+  signals: SignalAssessment[];
+  flags: string[];
+}
+
+/**
+ * Metric files the assessment reads; any of them may be missing.
+ */
+export type RiskInputs = Partial<Record<RiskSignal | 'contributors', unknown>>;
+
+/**
+ * Rating thresholds. For higher-is-better signals a value at or below `high` is high risk;
+ * for lower-is-better ones a value at or above it is.
+ */
+export const RISK_THRESHOLDS = {
+  bus_factor: { high: 1, medium: 3 },
+  maintainer_count: { high: 1, medium: 2 },
+  /** Share of known contributors that became inactive. */
+  inactive_contributors: { high: 0.6, medium: 0.3 },
+  /** Median days to first response. */
+  issue_response_time: { high: 7, medium: 2 },
+  /** Releases in the last 12 months. */
+  releases: { high: 0, medium: 2 }
+} as const;
+
+const TREND_MONTHS = 6;
+const TREND_TOLERANCE = 0.1;
+const CORE_SIGNALS: RiskSignal[] = ['bus_factor', 'maintainer_count'];
+
+const round = (value: number) => Number(value.toFixed(2));
+
+function monthlySeries(data: unknown, metric: string): Array<{ date: string; value: number }> {
+  if (data === undefined) return [];
+  return extractSeries(data, { metric }).points;
+}
+
+/**
+ * Sums or averages the months in `[end - months + 1, end]`, or returns null when none of them has data.
+ */
+function windowValue(values: Map<string, number>, end: string, months: number, mode: 'sum' | 'average'): number | null {
+  const present: number[] = [];
+  for (let i = 0; i < months; i++) {
+    const value = values.get(shiftMonth(end, -i));
+    if (value !== undefined) present.push(value);
+  }
+  if (present.length === 0) return null;
+  const total = present.reduce((sum, v) => sum + v, 0);
+  return mode === 'sum' ? total : total / present.length;
+}
+
+function trendOf(recent: number | null, previous: number | null, lowerIsBetter: boolean): SignalAssessment['trend'] {
+  if (recent === null || previous === null) return { direction: 'unknown', recent, previous };
+  const change = previous !== 0 ? (recent - previous) / Math.abs(previous) : recent === 0 ? 0 : 1;
+  let direction: SignalAssessment['trend']['direction'] = 'stable';
+  if (Math.abs(change) > TREND_TOLERANCE) {
+    direction = (change < 0) === lowerIsBetter ? 'improving' : 'worsening';
+  }
+  return { direction, recent: round(recent), previous: round(previous) };
+}
+
+function rate(value: number, thresholds: { high: number; medium: number }, lowerIsBetter: boolean): Exclude<RiskRating, 'unknown'> {
+  if (lowerIsBetter) {
+    if (value >= thresholds.high) return 'high';
+    if (value >= thresholds.medium) return 'medium';
+    return 'low';
+  }
+  if (value <= thresholds.high) return 'high';
+  if (value <= thresholds.medium) return 'medium';
+  return 'low';
+}
+
+function unknownSignal(signal: RiskSignal, unit: string, reason: string): SignalAssessment {
+  return { signal, rating: 'unknown', value: null, unit, evidence: reason, trend: { direction: 'unknown', recent: null, previous: null }, latestPeriod: null };
+}
+
+/**
+ * Rates a signal whose latest monthly value is compared against thresholds directly.
+ */
+function assessLevel(signal: 'bus_factor' | 'maintainer_count' | 'issue_response_time', data: unknown, unit: string, lowerIsBetter: boolean): SignalAssessment {
+  const points = monthlySeries(data, signal);
+  if (points.length === 0) return unknownSignal(signal, unit, `No ${signal} data available`);
+  const latest = points[points.length - 1]!;
+  const values = new Map(points.map(p => [p.date, p.value]));
+  const thresholds = RISK_THRESHOLDS[signal];
+  const rating = rate(latest.value, thresholds, lowerIsBetter);
+  const comparison = lowerIsBetter
+    ? `high risk at ${thresholds.high} ${unit} or more, medium from ${thresholds.medium}`
+    : `high risk at ${thresholds.high} or fewer, medium up to ${thresholds.medium}`;
+  return {
+    signal,
+    rating,
+    value: round(latest.value),
+    unit,
+    evidence: `${signal} is ${round(latest.value)}${unit === 'count' ? '' : ` ${unit}`} in ${latest.date} (${comparison})`,
+    trend: trendOf(
+      windowValue(values, latest.date, TREND_MONTHS, 'average'),
+      windowValue(values, shiftMonth(latest.date, -TREND_MONTHS), TREND_MONTHS, 'average'),
+      lowerIsBetter
+    ),
+    latestPeriod: latest.date
+  };
+}
+
+function assessInactive(data: unknown, contributorsData: unknown): SignalAssessment {
+  const inactive = monthlySeries(data, 'inactive_contributors');
+  if (inactive.length === 0) return unknownSignal('inactive_contributors', 'ratio', 'No inactive_contributors data available');
+  const contributors = new Map(monthlySeries(contributorsData, 'contributors').map(p => [p.date, p.value]));
+  const ratios = new Map(inactive.flatMap(point => {
+    const active = contributors.get(point.date);
+    return active !== undefined && active + point.value > 0 ? [[point.date, point.value / (active + point.value)] as const] : [];
+  }));
+  const latest = inactive[inactive.length - 1]!;
+  const ratio = ratios.get(latest.date);
+
+  if (ratio === undefined) {
+    // Without contributor counts only the direction of the raw count can be judged
+    const counts = new Map(inactive.map(p => [p.date, p.value]));
+    return {
+      ...unknownSignal('inactive_contributors', 'count', `${latest.value} inactive contributors in ${latest.date}; no contributors data to relate it to`),
+      value: latest.value,
+      trend: trendOf(
+        windowValue(counts, latest.date, TREND_MONTHS, 'average'),
+        windowValue(counts, shiftMonth(latest.date, -TREND_MONTHS), TREND_MONTHS, 'average'),
+        true
+      ),
+      latestPeriod: latest.date
+    };
+  }
+
+  const thresholds = RISK_THRESHOLDS.inactive_contributors;
+  return {
+    signal: 'inactive_contributors',
+    rating: rate(ratio, thresholds, true),
+    value: round(ratio),
+    unit: 'ratio',
+    evidence: `${latest.value} of ${latest.value + contributors.get(latest.date)!} known contributors (${(ratio * 100).toFixed(0)}%) are inactive in ${latest.date} (high risk from ${thresholds.high * 100}%, medium from ${thresholds.medium * 100}%)`,
+    trend: trendOf(
+      windowValue(ratios, latest.date, TREND_MONTHS, 'average'),
+      windowValue(ratios, shiftMonth(latest.date, -TREND_MONTHS), TREND_MONTHS, 'average'),
+      true
+    ),
+    latestPeriod: latest.date
+  };
+}
+
+function assessReleases(data: unknown): SignalAssessment {
+  const points = monthlySeries(data, 'releases');
+  if (points.length === 0) return unknownSignal('releases', 'releases/year', 'No releases data available');
+  const values = new Map(points.map(p => [p.date, p.value]));
+  const latestMonth = points[points.length - 1]!.date;
+  const recent = windowValue(values, latestMonth, 12, 'sum') ?? 0;
+  const previous = windowValue(values, shiftMonth(latestMonth, -12), 12, 'sum');
+  const lastRelease = [...points].reverse().find(point => point.value > 0);
+  const thresholds = RISK_THRESHOLDS.releases;
+  return {
+    signal: 'releases',
+    rating: rate(recent, thresholds, false),
+    value: round(recent),
+    unit: 'releases/year',
+    evidence: `${round(recent)} releases in the 12 months to ${latestMonth}; last release ${lastRelease ? `in ${lastRelease.date}` : 'not found'} (high risk at ${thresholds.high}, medium up to ${thresholds.medium})`,
+    trend: trendOf(recent, previous, false),
+    latestPeriod: latestMonth
+  };
+}
+
+/**
+ * Builds a sustainability risk report from the available metric files.
+ *
+ * @param inputs - Fetched metric files; missing ones yield an `unknown` rating for that signal.
+ * @returns Per-signal ratings with evidence and trend, an overall rating and notable flags.
+ */
+export function assessSustainabilityRisk(inputs: RiskInputs): RiskReport {
+  const signals = [
+    assessLevel('bus_factor', inputs.bus_factor, 'count', false),
+    assessLevel('maintainer_count', inputs.maintainer_count, 'count', false),
+    assessInactive(inputs.inactive_contributors, inputs.contributors),
+    assessLevel('issue_response_time', inputs.issue_response_time, 'days', true),
+    assessReleases(inputs.releases)
+  ];
+
+  const rated = signals.filter(signal => signal.rating !== 'unknown');
+  const points = { low: 0, medium: 1, high: 2, unknown: 0 };
+  const score = rated.length > 0 ? round(rated.reduce((sum, signal) => sum + points[signal.rating], 0) / (2 * rated.length)) : null;
+
+  let overall: RiskRating = 'unknown';
+  if (score !== null) {
+    const coreHigh = rated.some(signal => CORE_SIGNALS.includes(signal.signal) && signal.rating === 'high');
+    if (coreHigh || score >= 0.5) overall = 'high';
+    else if (score >= 0.25 || rated.some(signal => signal.rating === 'high')) overall = 'medium';
+    else overall = 'low';
+  }
+
+  const flags = signals.flatMap(signal => {
+    const notes: string[] = [];
+    if (signal.rating === 'high') notes.push(`High risk: ${signal.evidence}`);
+    if (signal.trend.direction === 'worsening' && signal.rating !== 'low') notes.push(`${signal.signal} is worsening (${signal.trend.previous} -> ${signal.trend.recent})`);
+    return notes;
+  });
+  const unknown = signals.filter(signal => signal.rating === 'unknown').map(signal => signal.signal);
+  if (unknown.length > 0) flags.push(`Not rated for lack of data: ${unknown.join(', ')}`);
+
+  return { overall, score, signals, flags };
+}
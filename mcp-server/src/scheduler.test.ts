@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestScheduler } from './scheduler.js';
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+};
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('never runs more than maxConcurrent tasks and starts queued ones in order', async () => {
+    const scheduler = new RequestScheduler(2);
+    const gates = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const runs = gates.map((gate, i) => scheduler.schedule(async () => {
+      started.push(i);
+      await gate.promise;
+      return i;
+    }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.stats()).toMatchObject({ active: 2, queued: 2 });
+
+    gates[1]!.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+
+    gates.forEach(gate => gate.resolve());
+    expect(await Promise.all(runs)).toEqual([0, 1, 2, 3]);
+    expect(scheduler.stats()).toMatchObject({ active: 0, queued: 0, completed: 4, peakQueueDepth: 2 });
+  });
+
+  it('passes task failures to the caller and keeps draining', async () => {
+    const scheduler = new RequestScheduler(1);
+    const failed = scheduler.schedule(() => Promise.reject(new Error('upstream down')));
+    const next = scheduler.schedule(async () => 'ok');
+
+    await expect(failed).rejects.toThrow('upstream down');
+    await expect(next).resolves.toBe('ok');
+  });
+
+  it('spreads tasks over time to honor requestsPerSecond', async () => {
+    const scheduler = new RequestScheduler(10, 2);
+    const started: number[] = [];
+    for (let i = 0; i < 5; i++) void scheduler.schedule(async () => { started.push(Date.now()); });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toHaveLength(5);
+  });
+
+  it('runs tasks under budgets below one request per second', async () => {
+    const scheduler = new RequestScheduler(10, 0.5);
+    let started = 0;
+    for (let i = 0; i < 3; i++) void scheduler.schedule(async () => { started++; });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toBe(1);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(started).toBe(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(started).toBe(3);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @file scheduler.ts
+ * @description
+ * Shared request scheduler for upstream data source requests.
+ *
+ * Every tool and SSE route reaches the upstream through `fetchWithCache`, which runs each
+ * attempt through the scheduler below. It enforces a global concurrency limit and an optional
+ * requests-per-second budget (token bucket), queueing the excess in FIFO order.
+ */
+
+
+import { SERVER_CONFIG } from './config.js';
+
+export class RequestScheduler {
+  readonly maxConcurrent: number;
+  readonly requestsPerSecond: number;
+  private active = 0;
+  private readonly queue: Array<{ start: () => void; enqueuedAt: number }> = [];
+  private tokens: number;
+  private lastRefill = Date.now();
+  private refillTimer: NodeJS.Timeout | undefined;
+  private started = 0;
+  private completed = 0;
+  private totalWaitMs = 0;
+  private peakQueueDepth = 0;
+
+  constructor(maxConcurrent: number, requestsPerSecond: number = 0) {
+    this.maxConcurrent = maxConcurrent;
+    this.requestsPerSecond = requestsPerSecond;
+    this.tokens = Math.max(1, requestsPerSecond);
+  }
+
+  /**
+   * Runs a task once a concurrency slot (and, if configured, a rate token) is available.
+   */
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const enqueuedAt = Date.now();
+      this.queue.push({
+        enqueuedAt,
+        start: () => {
+          this.active++;
+          this.started++;
+          this.totalWaitMs += Date.now() - enqueuedAt;
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.completed++;
+              this.drain();
+            });
+        }
+      });
+      this.peakQueueDepth = Math.max(this.peakQueueDepth, this.queue.length);
+      this.drain();
+    });
+  }
+
+  private refillTokens(): void {
+    const now = Date.now();
+    // Budgets below 1/s still need room for one whole token, or no request would ever start
+    this.tokens = Math.min(Math.max(1, this.requestsPerSecond), this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      if (this.requestsPerSecond > 0) {
+        this.refillTokens();
+        if (this.tokens < 1) {
+          if (!this.refillTimer) {
+            const waitMs = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+            this.refillTimer = setTimeout(() => {
+              this.refillTimer = undefined;
+              this.drain();
+            }, waitMs);
+          }
+          return;
+        }
+        this.tokens--;
+      }
+      this.queue.shift()!.start();
+    }
+  }
+
+  stats() {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      peakQueueDepth: this.peakQueueDepth,
+      oldestQueuedMs: this.queue.length > 0 ? Date.now() - this.queue[0]!.enqueuedAt : 0,
+      completed: this.completed,
+      averageWaitMs: this.started > 0 ? this.totalWaitMs / this.started : 0,
+      maxConcurrent: this.maxConcurrent,
+      requestsPerSecond: this.requestsPerSecond || null
+    };
+  }
+}
+
+export const requestScheduler = new RequestScheduler(SERVER_CONFIG.maxConcurrentRequests, SERVER_CONFIG.requestsPerSecond);
+
+/**
+ * Returns the queue depth and throughput of the shared scheduler for health reporting.
+ */
+export function getSchedulerStats() {
+  return requestScheduler.stats();
+}
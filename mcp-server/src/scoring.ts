@@ -0,0 +1,165 @@
+/**
+ * @file scoring.ts
+ * @description
+ * Named health-scoring profiles: per-metric weights and log-scale references used by
+ * `calculateHealthScoreBreakdown`.
+ *
+ * The built-in `default` profile is `DEFAULT_HEALTH_MODEL`. Further profiles (or a replacement
+ * `default`) are read once at startup from the JSON or YAML file named by HEALTH_PROFILES_FILE:
+ *
+ *   defaultProfile: infra-library
+ *   profiles:
+ *     infra-library:
+ *       description: Libraries consumed by other projects
+ *       metrics:
+ *         openrank: { weight: 0.3, reference: 1000 }
+ *         contributors: { weight: 0.3, reference: 500 }
+ *         releases: { weight: 0.2, reference: 24 }
+ *         bus_factor: { weight: 0.2, reference: 20 }
+ */
+
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { DEFAULT_HEALTH_MODEL, type HealthMetricModel } from './analysis.js';
+
+/**
+ * Metrics a profile may weigh: repository series where a higher value is the healthier one.
+ */
+export const HEALTH_SCORE_METRICS = [
+  'openrank', 'activity', 'stars', 'forks', 'participants', 'contributors', 'new_contributors',
+  'issues_new', 'issues_closed', 'change_requests', 'pull_requests', 'pull_requests_accepted',
+  'pull_requests_merged', 'issue_comments', 'commits', 'code_change_lines', 'technical_fork',
+  'bus_factor', 'maintainer_count', 'releases'
+] as const;
+
+export type HealthScoreMetric = typeof HEALTH_SCORE_METRICS[number];
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+export interface ScoringProfile {
+  name: string;
+  description: string;
+  source: 'builtin' | 'file';
+  metrics: Partial<Record<HealthScoreMetric, HealthMetricModel>>;
+}
+
+const profileSchema = z.object({
+  description: z.string().optional(),
+  metrics: z.record(
+    z.enum(HEALTH_SCORE_METRICS),
+    z.object({
+      weight: z.number().positive(),
+      reference: z.number().gt(1, 'reference must be greater than 1 for log scaling')
+    }).strict()
+  ).refine(metrics => Object.keys(metrics).length > 0, 'A profile needs at least one metric')
+}).strict();
+
+const profilesFileSchema = z.object({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(z.string().regex(/^[A-Za-z0-9][\w.-]*$/, 'Profile names may contain letters, digits, ".", "_" and "-"'), profileSchema)
+}).strict();
+
+const builtinProfile: ScoringProfile = {
+  name: DEFAULT_PROFILE_NAME,
+  description: 'Balanced weighting of influence, popularity and community size',
+  source: 'builtin',
+  metrics: DEFAULT_HEALTH_MODEL as ScoringProfile['metrics']
+};
+
+let profiles = new Map<string, ScoringProfile>([[DEFAULT_PROFILE_NAME, builtinProfile]]);
+let defaultProfileName = DEFAULT_PROFILE_NAME;
+let profilesFile: string | undefined;
+
+/**
+ * Path of the scoring profile file, if one is configured.
+ */
+export function getScoringProfilesFile(): string | undefined {
+  const file = process.env.HEALTH_PROFILES_FILE?.trim();
+  return file ? path.resolve(file) : undefined;
+}
+
+/**
+ * Loads and validates the profile file. Called once at startup so that a broken file stops the
+ * server instead of failing individual tool calls.
+ *
+ * @returns The number of profiles read from the file (0 when none is configured).
+ * @throws Error if the file cannot be read or parsed, or does not match the expected format.
+ */
+export function loadScoringProfiles(): number {
+  const file = getScoringProfilesFile();
+  if (!file) return 0;
+
+  let parsed: unknown;
+  try {
+    const text = readFileSync(file, 'utf8');
+    parsed = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Cannot read scoring profiles from ${file}: ${(error as Error).message}`);
+  }
+  const result = profilesFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.errors[0]!;
+    throw new Error(`Invalid scoring profiles in ${file} at ${issue.path.join('.') || '<root>'}: ${issue.message}`);
+  }
+
+  const loaded = new Map(profiles);
+  Object.entries(result.data.profiles).forEach(([name, profile]) => {
+    loaded.set(name, {
+      name,
+      description: profile.description ?? '',
+      source: 'file',
+      metrics: profile.metrics as ScoringProfile['metrics']
+    });
+  });
+  const wanted = result.data.defaultProfile ?? DEFAULT_PROFILE_NAME;
+  if (!loaded.has(wanted)) {
+    throw new Error(`Invalid scoring profiles in ${file}: defaultProfile "${wanted}" is not defined`);
+  }
+
+  profiles = loaded;
+  defaultProfileName = wanted;
+  profilesFile = file;
+  return Object.keys(result.data.profiles).length;
+}
+
+/**
+ * Resolves a profile by name, or the default profile when no name is given.
+ *
+ * @throws Error naming the available profiles if the profile does not exist.
+ */
+export function getScoringProfile(name?: string): ScoringProfile {
+  const profile = profiles.get(name ?? defaultProfileName);
+  if (!profile) {
+    throw new Error(`Unknown scoring profile "${name}". Available profiles: ${[...profiles.keys()].join(', ')}`);
+  }
+  return profile;
+}
+
+/**
+ * Describes all profiles with their weights expressed as shares of the profile total.
+ */
+export function listScoringProfiles() {
+  return {
+    defaultProfile: defaultProfileName,
+    file: profilesFile ?? null,
+    profiles: [...profiles.values()].map(profile => {
+      const entries = Object.entries(profile.metrics) as Array<[HealthScoreMetric, HealthMetricModel]>;
+      const totalWeight = entries.reduce((sum, [, model]) => sum + model.weight, 0);
+      return {
+        name: profile.name,
+        description: profile.description,
+        source: profile.source,
+        isDefault: profile.name === defaultProfileName,
+        metrics: entries.map(([metric, model]) => ({
+          metric,
+          weight: model.weight,
+          share: Number((model.weight / totalWeight).toFixed(4)),
+          reference: model.reference
+        }))
+      };
+    })
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * @file sessions.ts
+ * @description
+ * MCP Streamable HTTP endpoint with session management.
+ *
+ * A client starts a session by POSTing `initialize` without an `Mcp-Session-Id` header; the
+ * session id returned in that header must accompany every later request (POST for messages,
+ * GET for the server-to-client stream, DELETE to end the session). Each session gets its own
+ * `Server` instance, since an MCP server serves a single transport. Sessions end on DELETE,
+ * when the client disconnects for good, or after MCP_SESSION_IDLE_SECONDS without requests and
+ * without an open GET stream.
+ */
+
+
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { SERVER_CONFIG } from './config.js';
+import { isToolAllowed, toolCallsIn, type ApiClient, type AuditEntry } from './auth.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  /** Name of the API key that opened the session, if authentication is on. */
+  client: string | null;
+  createdAt: number;
+  lastActivity: number;
+  /** GET streams currently open; a session with a listening client is never idle. */
+  openStreams: number;
+}
+
+const sessions = new Map<string, Session>();
+let sweeper: NodeJS.Timeout | undefined;
+
+/**
+ * Reads and parses a JSON request body.
+ *
+ * @throws Error if the body is too large or is not valid JSON.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Closes sessions that have been idle for longer than the configured limit.
+ */
+function sweepIdleSessions() {
+  const cutoff = Date.now() - SERVER_CONFIG.sessionIdleSeconds * 1000;
+  sessions.forEach((session, id) => {
+    if (session.openStreams > 0 || session.lastActivity >= cutoff) return;
+    sessions.delete(id);
+    session.server.close().catch(error => console.error(`Failed to close idle MCP session ${id}:`, error));
+  });
+}
+
+export interface McpRequestContext {
+  /** Authenticated client, or null when authentication is off. */
+  client: ApiClient | null;
+  /** Audit entry of the request; receives the tools it calls. */
+  audit: Pick<AuditEntry, 'tools' | 'detail'>;
+  /** Charges the parsed request to the client; returns false once it has answered with 429. */
+  admit: (body: unknown) => Promise<boolean>;
+}
+
+/**
+ * Handles a request to the MCP endpoint, creating a session on `initialize`.
+ *
+ * @param createServer - Builds a fresh MCP server with the tools the client may call.
+ */
+export async function handleMcpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  createServer: (client: ApiClient | null) => Server,
+  { client, audit, admit }: McpRequestContext
+): Promise<void> {
+  const header = req.headers['mcp-session-id'];
+  const sessionId = Array.isArray(header) ? header[0] : header;
+
+  let body: unknown;
+  if (req.method === 'POST') {
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(res, 400, -32700, `Parse error: ${(error as Error).message}`);
+      return;
+    }
+    const tools = toolCallsIn(body);
+    if (tools.length > 0) audit.tools = tools;
+    const denied = tools.filter(tool => !isToolAllowed(client, tool));
+    if (denied.length > 0) {
+      audit.detail = `tool not allowed for key: ${denied.join(', ')}`;
+      sendJsonRpcError(res, 403, -32003, `API key "${client?.name}" is not allowed to call ${denied.join(', ')}`);
+      return;
+    }
+  }
+  if (!(await admit(body))) return;
+
+  if (sessionId !== undefined) {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found; start a new session with an initialize request');
+      return;
+    }
+    if (session.client !== (client?.name ?? null)) {
+      audit.detail = `session belongs to key ${session.client}`;
+      sendJsonRpcError(res, 403, -32003, 'Session was opened with a different API key');
+      return;
+    }
+    session.lastActivity = Date.now();
+    if (req.method === 'GET') {
+      session.openStreams++;
+      res.on('close', () => {
+        session.openStreams--;
+        session.lastActivity = Date.now();
+      });
+    }
+    await session.transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (req.method !== 'POST' || !isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: missing Mcp-Session-Id header; start a session with an initialize request');
+    return;
+  }
+
+  const server = createServer(client);
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      sessions.set(id, { server, transport, client: client?.name ?? null, createdAt: Date.now(), lastActivity: Date.now(), openStreams: 0 });
+    }
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) sessions.delete(transport.sessionId);
+  };
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  } finally {
+    // An initialize that failed never registered a session, so nothing else would close them
+    if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+      await Promise.allSettled([server.close(), transport.close()]);
+    }
+  }
+
+  if (!sweeper) {
+    sweeper = setInterval(sweepIdleSessions, Math.min(SERVER_CONFIG.sessionIdleSeconds * 1000, 60_000));
+    sweeper.unref();
+  }
+}
+
+/**
+ * Returns session statistics for health reporting.
+ */
+export function getSessionStats() {
+  const now = Date.now();
+  return {
+    active: sessions.size,
+    idleTimeoutSeconds: SERVER_CONFIG.sessionIdleSeconds,
+    oldestSessionAgeSeconds: sessions.size > 0
+      ? Math.round((now - Math.min(...[...sessions.values()].map(session => session.createdAt))) / 1000)
+      : null
+  };
+}
+
+/**
+ * Closes all sessions, e.g. on shutdown.
+ */
+export async function closeAllSessions(): Promise<void> {
+  const open = [...sessions.values()];
+  sessions.clear();
+  await Promise.allSettled(open.map(session => session.server.close()));
+}
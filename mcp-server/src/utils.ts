@@ -1,19 +1,36 @@
 /**
  * @file utils.ts
  * @description
- * A utility module for managing an in-memory cache system with TTL (Time-To-Live) support.
+ * A utility module for managing a two-level cache system with TTL (Time-To-Live) support.
  * This module provides functions to fetch data with caching, track cache statistics, and manage cache entries.
  * It is designed to optimize performance by reducing redundant network requests and providing insights into cache usage.
  *
  * Features:
- * - In-memory caching with TTL support.
+ * - In-memory caching with TTL support, optionally backed by a persistent on-disk store (CACHE_DIR).
+ * - Bounded memory tier (entry count and approximate bytes) with LRU or LFU eviction.
+ * - Periodic background sweeping of expired entries.
+ * - Stale-while-revalidate: expired entries are served immediately and refreshed in the background.
+ * - Stale-if-error: expired entries are served when the upstream is unreachable.
+ * - Conditional revalidation using ETag/Last-Modified validators.
+ * - Timeouts, retries with backoff and a circuit breaker for upstream requests (see resilience.ts).
+ * - Single-flight request coalescing: concurrent callers for the same URL share one upstream request.
  * - Cache hit/miss tracking and statistics.
+ * - Provenance records (source, cache status, entry age, duration, upstream status, freshness) for every fetch.
  * - Automatic cache expiration and cleanup.
- * - Fetching data with cache fallback.
+ * - Fetching data with cache fallback from the configured data source (HTTP mirror, directory or tarball).
  * - Retrieving popular cache entries and memory usage statistics.
  *
+ * Environment Variables:
+ * - CACHE_DIR: Directory for the persistent cache (disabled when unset)
+ * - CACHE_STALE_TTL_SECONDS: How long after expiry entries are served while revalidating (default: 86400)
+ * - CACHE_STALE_IF_ERROR_SECONDS: How long after expiry entries are served when the upstream fails (default: 2592000)
+ * - CACHE_MAX_ENTRIES: Maximum number of in-memory entries (default: 1000)
+ * - CACHE_MAX_BYTES: Approximate maximum size of in-memory entries in bytes (default: 104857600)
+ * - CACHE_EVICTION_POLICY: `lru` or `lfu` (default: lru)
+ * - CACHE_SWEEP_INTERVAL_SECONDS: Interval of the background expiry sweep, 0 to disable (default: 60)
+ *
  * Usage:
- * - Use `fetchWithCache` to fetch data with caching.
+ * - Use `fetchWithCache` to fetch a metric path (e.g. `github/owner/repo/openrank.json`) with caching.
  * - Use `getCacheStats` to retrieve cache performance metrics.
  * - Use `clearExpiredCache` or `clearCache` to manage cache entries.
  * - Use `getPopularCacheEntries` to analyze frequently accessed cache entries.
@@ -21,19 +38,85 @@
 
 
 import { performance } from 'perf_hooks';
+import { getDataSource, type DataSource } from './datasource.js';
+import { DiskCacheStore } from './diskcache.js';
+import { loadWithRetry, UpstreamError, type RetryOptions } from './resilience.js';
 
 interface CacheEntry {
   value: unknown;
   expiresAt: number;
   createdAt: number;
   hitCount: number;
+  lastAccessed: number;
+  size: number;
+  status?: number | undefined;
+  etag?: string | undefined;
+  lastModified?: string | undefined;
+}
+
+/**
+ * Describes where a piece of data came from and how it was obtained.
+ */
+export interface Provenance {
+  source: string;
+  sourceType: DataSource['type'];
+  cacheStatus: 'hit' | 'miss' | 'stale' | 'stale_on_error' | 'coalesced' | 'revalidated';
+  /** Time since the data was last retrieved or validated upstream. */
+  entryAgeMs: number;
+  /** Wall-clock time this call took, including any upstream request. */
+  fetchDurationMs: number;
+  /** Status of the upstream response that produced (or last validated) the data. */
+  upstreamStatus?: number | undefined;
+  retrievedAt: string;
+  etag?: string | undefined;
+  lastModified?: string | undefined;
+  freshness: {
+    state: 'fresh' | 'stale';
+    expiresAt: string;
+    /** Most recent period present in the data (e.g. `2024-09`), if it is a time series. */
+    latestPeriod?: string | undefined;
+  };
+}
+
+export interface FetchResult {
+  data: unknown;
+  provenance: Provenance;
 }
 
+interface LoadOutcome {
+  entry: CacheEntry;
+  upstreamStatus: number;
+}
+
+type EvictionPolicy = 'lru' | 'lfu';
+
 interface CacheStats {
   totalEntries: number;
   totalHits: number;
   totalMisses: number;
   hitRate: number;
+  staleHits: number;
+  staleOnError: number;
+  revalidations: number;
+  notModified: number;
+  coalesced: number;
+  inFlight: number;
+  approximateBytes: number;
+  limits: {
+    maxEntries: number;
+    maxBytes: number;
+    policy: EvictionPolicy;
+  };
+  evictions: {
+    capacity: number;
+    expired: number;
+    bytesEvicted: number;
+  };
+  persistent: {
+    enabled: boolean;
+    directory?: string | undefined;
+    writeErrors: number;
+  };
   memoryUsage: {
     heapUsed: number;
     heapTotal: number;
@@ -43,72 +126,333 @@ interface CacheStats {
   newestEntry?: number | undefined;
 }
 
+const STALE_TTL_MS = Number(process.env.CACHE_STALE_TTL_SECONDS || 86400) * 1000;
+const STALE_IF_ERROR_MS = Number(process.env.CACHE_STALE_IF_ERROR_SECONDS || 2592000) * 1000;
+const DISK_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES || 1000);
+const MAX_BYTES = Number(process.env.CACHE_MAX_BYTES || 100 * 1024 * 1024);
+const EVICTION_POLICY: EvictionPolicy = process.env.CACHE_EVICTION_POLICY === 'lfu' ? 'lfu' : 'lru';
+const SWEEP_INTERVAL_MS = Number(process.env.CACHE_SWEEP_INTERVAL_SECONDS ?? 60) * 1000;
+
 const inMemoryCache: Map<string, CacheEntry> = new Map();
+const diskStore = process.env.CACHE_DIR ? new DiskCacheStore(process.env.CACHE_DIR) : undefined;
+const inFlightRequests: Map<string, Promise<LoadOutcome>> = new Map();
 let cacheHits = 0;
 let cacheMisses = 0;
+let staleHits = 0;
+let staleOnError = 0;
+let revalidations = 0;
+let notModified = 0;
+let coalesced = 0;
+let diskWriteErrors = 0;
+let lastDiskPrune = 0;
+let totalBytes = 0;
+let capacityEvictions = 0;
+let expiredEvictions = 0;
+let bytesEvicted = 0;
+let sweeper: NodeJS.Timeout | undefined;
 
-async function parseResponseBody(response: Response): Promise<unknown> {
-  const contentType = response.headers.get("content-type");
-  if (contentType?.includes("application/json")) {
-    return response.json();
+/**
+ * Approximates the memory footprint of a cached value by its serialized size.
+ */
+function estimateSize(value: unknown): number {
+  try {
+    return Buffer.byteLength(typeof value === 'string' ? value : JSON.stringify(value) ?? '');
+  } catch {
+    return 0;
   }
-  return response.text();
 }
 
-function getCached(url: string): unknown | undefined {
-  const entry = inMemoryCache.get(url);
-  if (!entry) {
-    cacheMisses++;
+/**
+ * Picks the entry to evict: the least recently used one (Map order) for LRU, or the
+ * entry with the fewest hits for LFU (ties broken by recency).
+ */
+function pickEvictionCandidate(protectedKey: string): string | undefined {
+  if (EVICTION_POLICY === 'lru') {
+    for (const key of inMemoryCache.keys()) {
+      if (key !== protectedKey) return key;
+    }
     return undefined;
   }
-  
-  if (Date.now() > entry.expiresAt) {
-    inMemoryCache.delete(url);
-    cacheMisses++;
-    return undefined;
+
+  let candidate: [string, CacheEntry] | undefined;
+  for (const item of inMemoryCache.entries()) {
+    if (item[0] === protectedKey) continue;
+    if (!candidate || item[1].hitCount < candidate[1].hitCount ||
+        (item[1].hitCount === candidate[1].hitCount && item[1].lastAccessed < candidate[1].lastAccessed)) {
+      candidate = item;
+    }
   }
-  
+  return candidate?.[0];
+}
+
+function removeFromMemory(url: string): void {
+  const entry = inMemoryCache.get(url);
+  if (!entry) return;
+  totalBytes -= entry.size;
+  inMemoryCache.delete(url);
+}
+
+/**
+ * Inserts an entry into the memory tier and evicts others until the configured limits hold.
+ * Evicted entries remain available from the persistent store when it is enabled.
+ */
+function storeInMemory(url: string, entry: CacheEntry): void {
+  removeFromMemory(url);
+  inMemoryCache.set(url, entry);
+  totalBytes += entry.size;
+
+  while (inMemoryCache.size > MAX_ENTRIES || totalBytes > MAX_BYTES) {
+    const victim = pickEvictionCandidate(url);
+    if (!victim) break;
+    bytesEvicted += inMemoryCache.get(victim)?.size ?? 0;
+    removeFromMemory(victim);
+    capacityEvictions++;
+  }
+
+  ensureSweeper();
+}
+
+/**
+ * Records an access: bumps the hit count and moves the entry to the most recently used position.
+ */
+function touch(url: string, entry: CacheEntry): void {
   entry.hitCount++;
-  cacheHits++;
-  return entry.value;
+  entry.lastAccessed = Date.now();
+  inMemoryCache.delete(url);
+  inMemoryCache.set(url, entry);
+}
+
+function ensureSweeper(): void {
+  if (sweeper || SWEEP_INTERVAL_MS <= 0) return;
+  sweeper = setInterval(() => clearExpiredCache(), SWEEP_INTERVAL_MS);
+  sweeper.unref();
+}
+
+/**
+ * An entry can be dropped once neither the stale-while-revalidate nor the stale-if-error window applies.
+ */
+function isDroppable(entry: { expiresAt: number }, now: number): boolean {
+  return now > entry.expiresAt + Math.max(STALE_TTL_MS, STALE_IF_ERROR_MS);
+}
+
+/**
+ * With a persistent store, the memory tier only needs to hold entries that can still be served
+ * without revalidation; older ones are reloaded from disk when the upstream fails.
+ */
+function isSweepable(entry: CacheEntry, now: number): boolean {
+  return diskStore ? now > entry.expiresAt + STALE_TTL_MS : isDroppable(entry, now);
+}
+
+/**
+ * Looks an entry up in memory, falling back to the persistent store.
+ * Returns expired entries as well; callers decide whether they are still usable.
+ */
+async function lookupEntry(url: string): Promise<CacheEntry | undefined> {
+  const now = Date.now();
+  let entry = inMemoryCache.get(url);
+
+  if (!entry && diskStore) {
+    const stored = await diskStore.get(url);
+    if (stored) {
+      const { key: _key, ...persisted } = stored;
+      entry = { ...persisted, hitCount: 0, lastAccessed: now, size: estimateSize(stored.value) };
+      storeInMemory(url, entry);
+    }
+  }
+
+  if (entry && isDroppable(entry, now)) {
+    removeFromMemory(url);
+    void diskStore?.delete(url);
+    return undefined;
+  }
+
+  return entry;
 }
 
-function setCached(url: string, value: unknown, ttlSeconds: number): void {
+function setCached(url: string, value: unknown, ttlSeconds: number, meta: { status: number; etag?: string | undefined; lastModified?: string | undefined }): CacheEntry {
   const now = Date.now();
-  inMemoryCache.set(url, { 
-    value, 
+  const entry: CacheEntry = {
+    value,
     expiresAt: now + ttlSeconds * 1000,
     createdAt: now,
-    hitCount: 0
+    hitCount: inMemoryCache.get(url)?.hitCount ?? 0,
+    lastAccessed: now,
+    size: estimateSize(value),
+    status: meta.status,
+    etag: meta.etag,
+    lastModified: meta.lastModified
+  };
+  storeInMemory(url, entry);
+
+  diskStore?.set({
+    key: url,
+    value,
+    createdAt: entry.createdAt,
+    expiresAt: entry.expiresAt,
+    status: entry.status,
+    etag: entry.etag,
+    lastModified: entry.lastModified
+  }).catch((error) => {
+    diskWriteErrors++;
+    console.error(`Failed to persist cache entry for ${url}: ${(error as Error).message}`);
   });
+  return entry;
+}
+
+/**
+ * Finds the most recent period key (YYYY-MM, YYYY-QN or YYYY) of a time-series payload.
+ */
+function findLatestPeriod(value: unknown): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const keys = Object.keys(value);
+  const monthly = keys.filter(key => /^\d{4}-\d{2}$/.test(key)).sort();
+  if (monthly.length > 0) return monthly[monthly.length - 1];
+  const other = keys.filter(key => /^\d{4}(Q[1-4])?$/.test(key)).sort();
+  return other[other.length - 1];
+}
+
+function buildProvenance(source: DataSource, url: string, entry: CacheEntry, cacheStatus: Provenance['cacheStatus'], startTime: number): Provenance {
+  const now = Date.now();
+  return {
+    source: url,
+    sourceType: source.type,
+    cacheStatus,
+    entryAgeMs: now - entry.createdAt,
+    fetchDurationMs: Number((performance.now() - startTime).toFixed(2)),
+    upstreamStatus: entry.status,
+    retrievedAt: new Date(entry.createdAt).toISOString(),
+    etag: entry.etag,
+    lastModified: entry.lastModified,
+    freshness: {
+      state: now <= entry.expiresAt ? 'fresh' : 'stale',
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+      latestPeriod: findLatestPeriod(entry.value)
+    }
+  };
 }
 
-export async function fetchWithCache(url: string, ttlSeconds: number): Promise<unknown> {
+/**
+ * Loads a metric from the data source (conditionally when a previous entry exists) and stores the result.
+ */
+async function loadAndStore(source: DataSource, metricPath: string, url: string, ttlSeconds: number, retry: RetryOptions, previous?: CacheEntry): Promise<LoadOutcome> {
+  const validators = previous ? { etag: previous.etag, lastModified: previous.lastModified } : undefined;
+  const response = await loadWithRetry(source, metricPath, validators, retry);
+
+  if (response.status === 304 && previous) {
+    notModified++;
+    const entry = setCached(url, previous.value, ttlSeconds, {
+      status: response.status,
+      etag: response.etag ?? previous.etag,
+      lastModified: response.lastModified ?? previous.lastModified
+    });
+    return { entry, upstreamStatus: response.status };
+  }
+
+  if (!response.ok || response.status === 304) {
+    const errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+    throw new UpstreamError(`Error fetching data from ${url} - ${errorMessage}`, { kind: 'http', attempts: 1, status: response.status });
+  }
+
+  const entry = setCached(url, response.body, ttlSeconds, { status: response.status, etag: response.etag, lastModified: response.lastModified });
+  return { entry, upstreamStatus: response.status };
+}
+
+/**
+ * Starts an upstream load for a URL, or joins the one already in flight.
+ *
+ * @returns The shared promise and whether this caller joined an existing request.
+ */
+function loadSingleFlight(source: DataSource, metricPath: string, url: string, ttlSeconds: number, retry: RetryOptions, previous?: CacheEntry): { promise: Promise<LoadOutcome>; joined: boolean } {
+  const pending = inFlightRequests.get(url);
+  if (pending) {
+    coalesced++;
+    return { promise: pending, joined: true };
+  }
+
+  const promise = loadAndStore(source, metricPath, url, ttlSeconds, retry, previous)
+    .finally(() => inFlightRequests.delete(url));
+  inFlightRequests.set(url, promise);
+  return { promise, joined: false };
+}
+
+/**
+ * Refreshes a stale entry without blocking the caller. Revalidations already in flight are shared.
+ */
+function revalidateInBackground(source: DataSource, metricPath: string, url: string, ttlSeconds: number, retry: RetryOptions, previous: CacheEntry): void {
+  const { promise, joined } = loadSingleFlight(source, metricPath, url, ttlSeconds, retry, previous);
+  if (joined) return;
+  revalidations++;
+
+  promise
+    .then(() => console.error(`Revalidated ${url}`))
+    .catch((error) => console.error(`Background revalidation failed for ${url}: ${(error as Error).message}`));
+}
+
+/**
+ * Fetches a metric path from the active data source, serving it from the cache when possible.
+ *
+ * Fresh entries are returned directly. Entries inside the stale-while-revalidate window are
+ * returned immediately and refreshed in the background. Older entries are revalidated before
+ * returning, and still served if the upstream cannot be reached.
+ *
+ * @param metricPath - Path relative to the data root, e.g. `github/owner/repo/openrank.json`.
+ * @param ttlSeconds - Time-to-live for the cached response.
+ * @param retry - Optional per-request timeout and retry overrides.
+ * @returns The data together with its provenance record.
+ * @throws UpstreamError (carrying the attempt count) when the data source fails.
+ */
+export async function fetchWithCache(metricPath: string, ttlSeconds: number, retry: RetryOptions = {}): Promise<FetchResult> {
   const startTime = performance.now();
+  const source = getDataSource();
+  let url = metricPath;
+  let entry: CacheEntry | undefined;
   
   try {
-    const cached = getCached(url);
-    if (cached !== undefined) {
-      // console.error(`Cache hit for ${url} (${(performance.now() - startTime).toFixed(2)}ms)`);
-      console.log(`Cache hit for ${url} (${(performance.now() - startTime).toFixed(2)}ms)`);
-      return cached;
+    url = source.resolve(metricPath);
+    entry = await lookupEntry(url);
+    const now = Date.now();
+
+    if (entry && now <= entry.expiresAt) {
+      touch(url, entry);
+      cacheHits++;
+      console.error(`Cache hit for ${url} (${(performance.now() - startTime).toFixed(2)}ms)`);
+      return { data: entry.value, provenance: buildProvenance(source, url, entry, 'hit', startTime) };
     }
-    
-    console.error(`Fetching ${url}...`);
-    const response = await fetch(url);
-    const responseBody = await parseResponseBody(response);
-    
-    if (!response.ok) {
-      const errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-      throw new Error(`Error fetching data from ${url} - ${errorMessage}`);
+
+    if (entry && now <= entry.expiresAt + STALE_TTL_MS) {
+      touch(url, entry);
+      staleHits++;
+      revalidateInBackground(source, metricPath, url, ttlSeconds, retry, entry);
+      console.error(`Serving stale ${url} while revalidating (${(performance.now() - startTime).toFixed(2)}ms)`);
+      return { data: entry.value, provenance: buildProvenance(source, url, entry, 'stale', startTime) };
     }
     
-    setCached(url, responseBody, ttlSeconds);
+    const { promise, joined } = loadSingleFlight(source, metricPath, url, ttlSeconds, retry, entry);
+    if (joined) {
+      console.error(`Joining in-flight request for ${url}`);
+      const shared = await promise;
+      return { data: shared.entry.value, provenance: buildProvenance(source, url, shared.entry, 'coalesced', startTime) };
+    }
+
+    cacheMisses++;
+    console.error(`Fetching ${url}...`);
+    const outcome = await promise;
     console.error(`Cached ${url} (${(performance.now() - startTime).toFixed(2)}ms)`);
-    return responseBody;
+    const cacheStatus = outcome.upstreamStatus === 304 ? 'revalidated' : 'miss';
+    return { data: outcome.entry.value, provenance: buildProvenance(source, url, outcome.entry, cacheStatus, startTime) };
     
   } catch (error) {
+    if (entry && Date.now() <= entry.expiresAt + STALE_IF_ERROR_MS) {
+      staleOnError++;
+      console.error(`Serving stale ${url} because the upstream failed: ${(error as Error).message}`);
+      return { data: entry.value, provenance: buildProvenance(source, url, entry, 'stale_on_error', startTime) };
+    }
+
     const duration = (performance.now() - startTime).toFixed(2);
+    if (error instanceof UpstreamError) {
+      throw new UpstreamError(`Failed to fetch ${url} after ${duration}ms: ${error.message}`, error.details);
+    }
     if (error instanceof Error) {
       throw new Error(`Failed to fetch ${url} after ${duration}ms: ${error.message}`);
     }
@@ -125,6 +469,28 @@ export function getCacheStats(): CacheStats {
     totalHits: cacheHits,
     totalMisses: cacheMisses,
     hitRate: cacheHits + cacheMisses > 0 ? cacheHits / (cacheHits + cacheMisses) : 0,
+    staleHits,
+    staleOnError,
+    revalidations,
+    notModified,
+    coalesced,
+    inFlight: inFlightRequests.size,
+    approximateBytes: totalBytes,
+    limits: {
+      maxEntries: MAX_ENTRIES,
+      maxBytes: MAX_BYTES,
+      policy: EVICTION_POLICY
+    },
+    evictions: {
+      capacity: capacityEvictions,
+      expired: expiredEvictions,
+      bytesEvicted
+    },
+    persistent: {
+      enabled: diskStore !== undefined,
+      directory: diskStore?.directory,
+      writeErrors: diskWriteErrors
+    },
     memoryUsage: {
       heapUsed: memUsage.heapUsed,
       heapTotal: memUsage.heapTotal,
@@ -135,30 +501,55 @@ export function getCacheStats(): CacheStats {
   };
 }
 
+/**
+ * Removes entries whose stale windows have ended. Runs periodically in the background
+ * (CACHE_SWEEP_INTERVAL_SECONDS) and on demand. The persistent store is pruned
+ * in the background at most once per hour.
+ *
+ * @returns Number of in-memory entries removed.
+ */
 export function clearExpiredCache(): number {
   const now = Date.now();
   let cleared = 0;
   
   for (const [key, entry] of inMemoryCache.entries()) {
-    if (now > entry.expiresAt) {
-      inMemoryCache.delete(key);
+    if (isSweepable(entry, now)) {
+      removeFromMemory(key);
       cleared++;
     }
   }
+  expiredEvictions += cleared;
   
   if (cleared > 0) {
     console.error(`Cleared ${cleared} expired cache entries`);
   }
+
+  if (diskStore && now - lastDiskPrune > DISK_PRUNE_INTERVAL_MS) {
+    lastDiskPrune = now;
+    diskStore.prune(entry => isDroppable(entry, Date.now()))
+      .then(removed => removed > 0 && console.error(`Pruned ${removed} expired entries from ${diskStore.directory}`))
+      .catch(error => console.error(`Failed to prune persistent cache: ${(error as Error).message}`));
+  }
   
   return cleared;
 }
 
-export function clearCache(): void {
+export async function clearCache(): Promise<void> {
   const size = inMemoryCache.size;
   inMemoryCache.clear();
+  totalBytes = 0;
   cacheHits = 0;
   cacheMisses = 0;
-  console.error(`Cleared all cache entries (${size} items)`);
+  staleHits = 0;
+  staleOnError = 0;
+  revalidations = 0;
+  notModified = 0;
+  coalesced = 0;
+  capacityEvictions = 0;
+  expiredEvictions = 0;
+  bytesEvicted = 0;
+  const persisted = diskStore ? await diskStore.clear() : 0;
+  console.error(`Cleared all cache entries (${size} items, ${persisted} persisted)`);
 }
 
 export function getPopularCacheEntries(limit: number = 10): Array<{url: string, hitCount: number, age: number}> {
@@ -15,6 +15,21 @@ export const FEATURES = {
   SSE_SUPPORT: true,
   BATCH_PROCESSING: true,
   TREND_ANALYSIS: true,
+  FORECASTING: true,
+  ANOMALY_DETECTION: true,
+  CORRELATION_ANALYSIS: true,
+  ECOSYSTEM_INSIGHTS: true,
+  NETWORK_ANALYSIS: true,
+  COHORT_ANALYSIS: true,
+  RISK_ASSESSMENT: true,
+  HEALTH_SCORING: true,
+  SCORING_PROFILES: true,
+  COMPARISON_MODES: true,
+  BENCHMARKING: true,
+  DEVELOPER_TOOLS: true,
+  STREAMABLE_HTTP: true,
+  HTTP_AUTH: true,
+  CLIENT_RATE_LIMITS: true,
   COMPARISON_TOOLS: true,
   HEALTH_MONITORING: true,
   ADVANCED_CACHING: true